@@ -1,24 +1,395 @@
-import React, { useState, useCallback } from 'react';
-import { FileUp, Download, RefreshCw, Plus, X } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { FileUp, Download, FileText, RefreshCw, Plus, X } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { Person, Schedule, FacultyConstraint } from './types';
-import { generateSchedule } from './utils/scheduleGenerator';
+import { DocumentSettings, Person, RankRule, Room, Schedule, ScheduleLocks, SessionTime, FacultyConstraint, UnavailabilityConstraint } from './types';
+import { SCHEDULING_ENGINES, SchedulingEngine } from './utils/engines';
+import { ScheduleSolverError } from './utils/constraintSolver';
+import { GenerationProgress } from './utils/scheduleGenerator';
+import {
+  GenerationCancelledError,
+  GenerationJob,
+  GenerationRequest,
+  describeProgress,
+  startGeneration
+} from './utils/backgroundGeneration';
+import { MAX_SEED } from './utils/random';
+import { MAX_SESSIONS_PER_DAY, getSessionLabel, getSessionTime } from './utils/sessions';
+import { ROOMS_SHEET_NAME, parseRoomsSheet, resizeRooms } from './utils/rooms';
+import { buildExamDays, formatDayLabel, formatDayTitle, getExamDay } from './utils/calendar';
+import { downloadChangesWorkbook, downloadConstraintsWorkbook, downloadScheduleWorkbook } from './utils/excelExport';
+import { downloadSchedulePdf } from './utils/pdfExport';
+import { CalendarExportError, downloadAllCalendars, downloadPersonCalendar, listDutyHolders } from './utils/calendarExport';
+import { Roster } from './utils/rosterImport';
+import { CONSTRAINTS_SHEET_NAME, getUsableConstraints, parseConstraintsSheet } from './utils/constraintImport';
+import {
+  SPREADSHEET_FILE_TYPES,
+  SPREADSHEET_FORMATS,
+  SheetRows,
+  SpreadsheetFormat,
+  readSpreadsheetFile,
+  readWorkbookSheets
+} from './utils/spreadsheet';
+import { validateSchedule } from './utils/scheduleValidator';
+import { MAX_CANDIDATES, ScoredSchedule, scoreSchedule } from './utils/fairness';
+import { EMPTY_LOCKS, getLockedAssignments } from './utils/locks';
+import { replacePersonFrom } from './utils/replacement';
+import { diffSchedules } from './utils/scheduleDiff';
+import { analyseFeasibility } from './utils/feasibility';
+import { getUnavailableDays } from './utils/unavailability';
+import {
+  DEFAULT_SESSION_NAME,
+  DEFAULT_WORKSPACE,
+  SavedSession,
+  Workspace,
+  createSessionId,
+  deleteSession,
+  listSessions,
+  loadSession,
+  restoreActiveSession,
+  saveSession,
+  setActiveSession
+} from './utils/workspace';
+import { ProjectFileError, downloadProjectFile, parseProjectFile } from './utils/projectFile';
 import ScheduleDisplay from './ScheduleDisplay';
+import RoomSettings from './RoomSettings';
+import DocumentSettingsPanel from './DocumentSettingsPanel';
+import CalendarExportPanel from './CalendarExportPanel';
+import RankSettings from './RankSettings';
+import ValidationPanel from './ValidationPanel';
+import FeasibilityPanel from './FeasibilityPanel';
+import CandidateBrowser from './CandidateBrowser';
+import ReplacementPanel, { ReplacementSummary } from './ReplacementPanel';
+import ScheduleDiffPanel from './ScheduleDiffPanel';
+import SessionPanel from './SessionPanel';
+import RosterImportWizard from './RosterImportWizard';
+
+// The exact engine explains why it found no schedule; other failures are shown as they are
+function reportGenerationError(error: unknown) {
+  if (error instanceof GenerationCancelledError) return;
+  if (error instanceof ScheduleSolverError) {
+    alert(`${error.message}:\n\n${error.details.join('\n')}`);
+  } else {
+    alert(`Schedule generation failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Fixed days and leave in the form the engines take them
+function toPreAssignedFaculty(constraints: FacultyConstraint[]): { [day: number]: string[] } {
+  const constraintMap: { [day: number]: string[] } = {};
+  constraints.forEach(constraint => {
+    if (!constraintMap[constraint.day]) {
+      constraintMap[constraint.day] = [];
+    }
+    constraintMap[constraint.day].push(constraint.facultyName);
+  });
+  return constraintMap;
+}
+
+function toUnavailableDays(unavailability: UnavailabilityConstraint[]): { [personKey: string]: number[] } {
+  const unavailableMap: { [personKey: string]: number[] } = {};
+  getUnavailableDays(unavailability).forEach((blockedDays, key) => {
+    unavailableMap[key] = Array.from(blockedDays);
+  });
+  return unavailableMap;
+}
 
 function App() {
-  const [schedule, setSchedule] = useState<Schedule | null>(null);
-  const [faculty, setFaculty] = useState<Person[]>([]);
-  const [staff, setStaff] = useState<Person[]>([]);
-  const [isGenerated, setIsGenerated] = useState<boolean>(false);
-  const [fileName, setFileName] = useState<string | null>(null);
-  const [constraints, setConstraints] = useState<FacultyConstraint[]>([]);
-  const [days, setDays] = useState<number>(6);
-  const [rooms, setRooms] = useState<number>(11);
+  // The workspace left open last time, saved in this browser
+  const [restored] = useState(restoreActiveSession);
+  // Cleared on the first change; until then there is nothing new to save
+  const unsavedRestore = useRef<typeof restored | null>(restored);
+  const [session, setSession] = useState<SavedSession>(restored.session);
+  const [sessions, setSessions] = useState<SavedSession[]>(listSessions);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const [schedule, setSchedule] = useState<Schedule | null>(restored.workspace.schedule);
+  const [faculty, setFaculty] = useState<Person[]>(restored.workspace.faculty);
+  const [staff, setStaff] = useState<Person[]>(restored.workspace.staff);
+  const [isGenerated, setIsGenerated] = useState<boolean>(restored.workspace.schedule !== null);
+  const [fileName, setFileName] = useState<string | null>(restored.workspace.fileName);
+  const [constraints, setConstraints] = useState<FacultyConstraint[]>(restored.workspace.constraints);
+  const [unavailability, setUnavailability] = useState<UnavailabilityConstraint[]>(restored.workspace.unavailability);
+  const [days, setDays] = useState<number>(restored.workspace.days);
+  // Empty start date keeps the generic "Day N" labels
+  const [startDate, setStartDate] = useState<string>(restored.workspace.startDate);
+  const [holidays, setHolidays] = useState<string[]>(restored.workspace.holidays);
+  const [skipSundays, setSkipSundays] = useState<boolean>(restored.workspace.skipSundays);
+  const [newHoliday, setNewHoliday] = useState<string>('');
+  const [rooms, setRooms] = useState<Room[]>(restored.workspace.rooms);
+  const [rankRules, setRankRules] = useState<RankRule[]>(restored.workspace.rankRules);
+  const [sessionsPerDay, setSessionsPerDay] = useState<number>(restored.workspace.sessionsPerDay);
+  const [oneSessionPerDay, setOneSessionPerDay] = useState<boolean>(restored.workspace.oneSessionPerDay);
+  const [sessionTimes, setSessionTimes] = useState<SessionTime[]>(restored.workspace.sessionTimes);
+  // Empty means a fresh random seed on every generation
+  const [seedInput, setSeedInput] = useState<string>(restored.workspace.seedInput);
+  const [engine, setEngine] = useState<SchedulingEngine>(restored.workspace.engine);
+  // Best-of-N: how many schedules to generate, and the fairest few kept for browsing
+  const [candidateCount, setCandidateCount] = useState<number>(restored.workspace.candidateCount);
+  const [candidates, setCandidates] = useState<ScoredSchedule[]>([]);
+  // Rooms and people kept in place when regenerating
+  const [locks, setLocks] = useState<ScheduleLocks>(restored.workspace.locks);
+  const [replacement, setReplacement] = useState<ReplacementSummary | null>(null);
+  // The version last circulated, which later changes are compared against
+  const [baseline, setBaseline] = useState<Schedule | null>(restored.workspace.baseline);
+  const [documentSettings, setDocumentSettings] = useState<DocumentSettings>(restored.workspace.documentSettings);
+  // An uploaded workbook waiting for its columns to be confirmed in the import wizard
+  const [pendingRoster, setPendingRoster] = useState<{
+    uploadId: number; // New for every upload, so the wizard starts afresh even for the same file name
+    fileName: string;
+    description: string; // File type, and for CSV the delimiter and encoding found
+    sheets: SheetRows[];
+    rosterSheet: string;
+    rooms: Room[];
+    constraintsSheet?: string;
+  } | null>(null);
+  const uploadCount = useRef(0);
+  const [exportFormat, setExportFormat] = useState<SpreadsheetFormat>('xlsx');
+  // Set while a generation is running in the background
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const generationJob = useRef<GenerationJob | null>(null);
 
   // Constraint form state
+  const [constraintMode, setConstraintMode] = useState<'fixed' | 'unavailable'>('fixed');
   const [newConstraintFaculty, setNewConstraintFaculty] = useState<string>('');
   const [newConstraintDay, setNewConstraintDay] = useState<number>(1);
 
+  // Unavailability form state (person is encoded as "type:name")
+  const [newBlockedPerson, setNewBlockedPerson] = useState<string>('');
+  const [newBlockedFromDay, setNewBlockedFromDay] = useState<number>(1);
+  const [newBlockedToDay, setNewBlockedToDay] = useState<number>(1);
+
+  // Calendar date of each exam day
+  const examDays = useMemo(
+    () => buildExamDays({ startDate, holidays, skipSundays }, days),
+    [startDate, holidays, skipSundays, days]
+  );
+
+  // Fixed days and leave that apply to the roster and days as they stand; the rest stay listed
+  // but are left out of generation and every check
+  const usable = useMemo(
+    () => getUsableConstraints({ faculty, staff, days, constraints, unavailability }),
+    [faculty, staff, days, constraints, unavailability]
+  );
+
+  // Pre-flight check of the current setup, shown before generating
+  const feasibility = useMemo(
+    () => analyseFeasibility({
+      faculty,
+      staff,
+      constraints: usable.constraints,
+      unavailability: usable.unavailability,
+      days,
+      rooms,
+      sessionsPerDay,
+      oneSessionPerDay,
+      rankRules,
+      dayLabel: (day: number) => formatDayLabel(getExamDay(examDays, day))
+    }),
+    [faculty, staff, usable, days, rooms, sessionsPerDay, oneSessionPerDay, rankRules, examDays]
+  );
+
+  // Generate in a worker so the page stays responsive; starting a new run cancels the running one
+  const runGeneration = useCallback((request: GenerationRequest) => {
+    generationJob.current?.cancel();
+    const job = startGeneration(request, setProgress);
+    generationJob.current = job;
+    setProgress({ phase: 'fixed-days', days: request.options.days ?? days });
+
+    job.result
+      .then(best => {
+        setCandidates(best);
+        setSchedule(best[0].schedule);
+        setIsGenerated(true);
+        setReplacement(null);
+      })
+      .catch(reportGenerationError)
+      .finally(() => {
+        if (generationJob.current !== job) return;
+        generationJob.current = null;
+        setProgress(null);
+      });
+  }, [days]);
+
+  const cancelGeneration = useCallback(() => {
+    generationJob.current?.cancel();
+  }, []);
+
+  const workspace = useMemo<Workspace>(() => ({
+    fileName,
+    faculty,
+    staff,
+    constraints,
+    unavailability,
+    days,
+    startDate,
+    holidays,
+    skipSundays,
+    rooms,
+    rankRules,
+    sessionsPerDay,
+    oneSessionPerDay,
+    sessionTimes,
+    seedInput,
+    engine,
+    candidateCount,
+    schedule,
+    locks,
+    baseline,
+    documentSettings
+  }), [fileName, faculty, staff, constraints, unavailability, days, startDate, holidays, skipSundays, rooms, rankRules, sessionsPerDay, oneSessionPerDay, sessionTimes, seedInput, engine, candidateCount, schedule, locks, baseline, documentSettings]);
+
+  // Auto-save every change to the open session, starting with the first change after the
+  // restore: saving what was just read back (or an empty new session) would only reorder the list
+  useEffect(() => {
+    const start = unsavedRestore.current;
+    if (start && session === start.session &&
+      (Object.keys(workspace) as (keyof Workspace)[]).every(key => workspace[key] === start.workspace[key])) {
+      return;
+    }
+    unsavedRestore.current = null;
+    try {
+      saveSession(session.id, session.name, workspace);
+      setActiveSession(session.id);
+      setSaveError(null);
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : String(error));
+    }
+  }, [session, workspace]);
+
+  // Switch to another session; a generation still running belongs to the one being left
+  const openWorkspace = useCallback((next: SavedSession, loaded: Workspace) => {
+    generationJob.current?.cancel();
+    setSession(next);
+    setFileName(loaded.fileName);
+    setFaculty(loaded.faculty);
+    setStaff(loaded.staff);
+    setConstraints(loaded.constraints);
+    setUnavailability(loaded.unavailability);
+    setDays(loaded.days);
+    setStartDate(loaded.startDate);
+    setHolidays(loaded.holidays);
+    setSkipSundays(loaded.skipSundays);
+    setRooms(loaded.rooms);
+    setRankRules(loaded.rankRules);
+    setSessionsPerDay(loaded.sessionsPerDay);
+    setOneSessionPerDay(loaded.oneSessionPerDay);
+    setSessionTimes(loaded.sessionTimes);
+    setSeedInput(loaded.seedInput);
+    setEngine(loaded.engine);
+    setCandidateCount(loaded.candidateCount);
+    setSchedule(loaded.schedule);
+    setIsGenerated(loaded.schedule !== null);
+    setLocks(loaded.locks);
+    setBaseline(loaded.baseline);
+    setDocumentSettings(loaded.documentSettings);
+    setCandidates([]);
+    setReplacement(null);
+  }, []);
+
+  const openSession = useCallback((id: string) => {
+    const saved = listSessions();
+    const next = saved.find(s => s.id === id);
+    const loaded = loadSession(id);
+    setSessions(saved);
+    if (!next || !loaded) {
+      alert('This session could not be read from browser storage');
+      return;
+    }
+    openWorkspace(next, loaded);
+  }, [openWorkspace]);
+
+  const newSession = useCallback((name: string) => {
+    setSessions(listSessions());
+    openWorkspace({ id: createSessionId(), name, updatedAt: new Date().toISOString() }, DEFAULT_WORKSPACE);
+  }, [openWorkspace]);
+
+  const renameSession = useCallback((name: string) => {
+    setSession(prev => ({ ...prev, name }));
+  }, []);
+
+  // The open session is already saved, so the copy starts from what is on screen
+  const duplicateSession = useCallback((name: string) => {
+    setSessions(listSessions());
+    openWorkspace({ id: createSessionId(), name, updatedAt: new Date().toISOString() }, workspace);
+  }, [openWorkspace, workspace]);
+
+  // Deleting the open session moves to the latest other one, or a fresh empty session
+  const removeSession = useCallback(() => {
+    try {
+      deleteSession(session.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    const remaining = listSessions();
+    const next = remaining[0];
+    const loaded = next ? loadSession(next.id) : null;
+    setSessions(remaining);
+    if (next && loaded) {
+      openWorkspace(next, loaded);
+    } else {
+      openWorkspace({ id: createSessionId(), name: DEFAULT_SESSION_NAME, updatedAt: new Date().toISOString() }, DEFAULT_WORKSPACE);
+    }
+  }, [session, openWorkspace]);
+
+  const exportProject = useCallback(() => {
+    downloadProjectFile(session.name, workspace);
+  }, [session, workspace]);
+
+  // An imported project opens as a new session, leaving the current one as it is
+  const importProject = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const project = parseProjectFile(e.target?.result as string);
+        setSessions(listSessions());
+        openWorkspace({ id: createSessionId(), name: project.name || file.name, updatedAt: new Date().toISOString() }, project.workspace);
+      } catch (error) {
+        if (!(error instanceof ProjectFileError)) throw error;
+        const shown = error.details.slice(0, 20);
+        const more = error.details.length - shown.length;
+        alert(shown.length === 0
+          ? error.message
+          : [`${error.message}:`, '', ...shown, ...(more > 0 ? [`...and ${more} more`] : [])].join('\n'));
+      }
+    };
+    reader.readAsText(file);
+  }, [openWorkspace]);
+
+  // A hand-edited schedule is no longer one of the generated candidates
+  const editSchedule = useCallback((edited: Schedule) => {
+    setSchedule(edited);
+    setCandidates([]);
+  }, []);
+
+  // Someone drops out mid-exam: record their leave, merged with any it overlaps or adjoins,
+  // drop their fixed days from then on, and hand their remaining duties to substitutes
+  const replacePerson = useCallback((person: Person, fromDay: number) => {
+    if (!schedule) return;
+    const { name, type } = person;
+
+    const isTheirs = (u: UnavailabilityConstraint) => u.personType === type && u.personName === name;
+    const merged = unavailability.filter(u => isTheirs(u) && u.toDay >= fromDay - 1);
+    const note = merged.find(u => u.note)?.note;
+    const leave: UnavailabilityConstraint = {
+      personName: name,
+      personType: type,
+      fromDay: Math.min(fromDay, ...merged.map(u => u.fromDay)),
+      toDay: schedule.days,
+      ...(note ? { note } : {})
+    };
+    const updatedUnavailability = [...unavailability.filter(u => !merged.includes(u)), leave];
+    const updatedConstraints = type === 'faculty'
+      ? constraints.filter(c => c.facultyName !== name || c.day < fromDay)
+      : constraints;
+    const result = replacePersonFrom(schedule, person, fromDay, { faculty, staff, unavailability: updatedUnavailability, rankRules });
+
+    setUnavailability(updatedUnavailability);
+    setConstraints(updatedConstraints);
+    editSchedule(result.schedule);
+    setReplacement({ name, fromDay, changes: result.changes, changedPeople: result.changedPeople });
+  }, [schedule, faculty, staff, constraints, unavailability, rankRules, editSchedule]);
+
   const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -26,150 +397,147 @@ function App() {
     // Clear previous file
     event.target.value = '';
 
-    setFileName(file.name);
-
     const reader = new FileReader();
     reader.onload = (e) => {
-      const data = new Uint8Array(e.target?.result as ArrayBuffer);
-      const workbook = XLSX.read(data, { type: 'array' });
-      const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-      const jsonData = XLSX.utils.sheet_to_json(firstSheet);
-
-      const newFaculty: Person[] = [];
-      const newStaff: Person[] = [];
-
-      jsonData.forEach((row: any) => {
-        if (row.Faculty) {
-          newFaculty.push({ name: row.Faculty, type: 'faculty' });
-        }
-        if (row.Staff) {
-          newStaff.push({ name: row.Staff, type: 'staff' });
+      try {
+        const { workbook, description } = readSpreadsheetFile(file.name, e.target?.result as ArrayBuffer);
+        if (workbook.SheetNames.length === 0) {
+          alert('The file has no sheets to import');
+          return;
         }
-      });
 
-      setFaculty(newFaculty);
-      setStaff(newStaff);
-      const generatedSchedule = generateSchedule(newFaculty, newStaff);
-      setSchedule(generatedSchedule);
-      setIsGenerated(true);
+        // Optional "Rooms" and "Constraints" sheets name the exam rooms and list fixed days and
+        // leave; the roster is the first other sheet
+        const findSheet = (wanted: string) =>
+          workbook.SheetNames.find(name => name.trim().toLowerCase() === wanted.toLowerCase());
+        const roomsSheetName = findSheet(ROOMS_SHEET_NAME);
+        const constraintsSheetName = findSheet(CONSTRAINTS_SHEET_NAME);
+        const rosterSheetName = workbook.SheetNames.find(name =>
+          name !== roomsSheetName && name !== constraintsSheetName
+        ) ?? workbook.SheetNames[0];
+
+        setPendingRoster({
+          uploadId: ++uploadCount.current,
+          fileName: file.name,
+          description,
+          sheets: readWorkbookSheets(workbook),
+          rosterSheet: rosterSheetName,
+          rooms: roomsSheetName
+            ? parseRoomsSheet(XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[roomsSheetName]))
+            : [],
+          constraintsSheet: constraintsSheetName
+        });
+      } catch (error) {
+        alert(`${file.name} could not be read: ${error instanceof Error ? error.message : String(error)}`);
+      }
     };
     reader.readAsArrayBuffer(file);
   }, []);
 
+  // The roster as confirmed in the import wizard replaces the people and starts a generation.
+  // Rows of a Constraints sheet are checked against the new roster and added to the lists.
+  const importRoster = useCallback(({ faculty: newFaculty, staff: newStaff }: Roster) => {
+    if (!pendingRoster) return;
 
-  const downloadSchedule = useCallback(() => {
-    if (!schedule) return;
-
-    const wb = XLSX.utils.book_new();
-
-    // Create new worksheet with the same structure as the image
-    const ws = XLSX.utils.aoa_to_sheet([]);
-
-    // Set column widths
-    const columnWidths = [
-      { wch: 20 },  // Date&Day/Classroom column
-      { wch: 12 },  // Day 1
-      { wch: 12 },  // Day 2
-      { wch: 12 },  // Day 3
-      { wch: 12 },  // Day 4
-      { wch: 12 },  // Day 5
-      { wch: 12 },  // Day 6
-    ];
-    ws['!cols'] = columnWidths;
-
-    // Function to get cell reference
-    const getCellRef = (r: number, c: number): string => {
-      const col = String.fromCharCode(65 + c); // A, B, C, etc.
-      return `${col}${r + 1}`;
-    };
+    let newConstraints = constraints;
+    let newUnavailability = unavailability;
+    const constraintRows = pendingRoster.sheets.find(sheet => sheet.name === pendingRoster.constraintsSheet)?.rows;
+    if (constraintRows) {
+      const imported = parseConstraintsSheet(constraintRows, {
+        faculty: newFaculty,
+        staff: newStaff,
+        calendar: examDays,
+        constraints,
+        unavailability
+      });
+      newConstraints = [...constraints, ...imported.constraints];
+      newUnavailability = [...unavailability, ...imported.unavailability];
+      setConstraints(newConstraints);
+      setUnavailability(newUnavailability);
 
-    // Header row with merged day cells
-    for (let col = 1; col <= 6; col++) {
-      const cellRef = getCellRef(0, col);
-      ws[cellRef] = { t: 's', v: `Day ${col}` };
-      // No cell_set_style in XLSX, use cell style directly
-      ws[cellRef].s = { alignment: { horizontal: 'center' } };
+      const summary = `${pendingRoster.constraintsSheet} sheet: ${imported.constraints.length} fixed days and ${imported.unavailability.length} leave entries added`;
+      if (imported.issues.length > 0) {
+        alert([
+          `${summary}. ${imported.issues.length} rows skipped:`,
+          '',
+          ...imported.issues.map(issue => `Row ${issue.row}: ${issue.message}`)
+        ].join('\n'));
+      }
     }
 
-    // Day names row (Monday - Saturday)
-    const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    for (let col = 1; col <= 6; col++) {
-      const cellRef = getCellRef(1, col);
-      ws[cellRef] = { t: 's', v: dayNames[col - 1] };
-      // No cell_set_style in XLSX, use cell style directly
-      ws[cellRef].s = { alignment: { horizontal: 'center' } };
+    let newRooms = rooms;
+    if (pendingRoster.rooms.length > 0) {
+      newRooms = pendingRoster.rooms;
+      setRooms(pendingRoster.rooms);
     }
 
-    // First column with Room labels
-    ws[getCellRef(0, 0)] = { t: 's', v: 'Date&Day/Classroom' };
-    for (let room = 1; room <= 11; room++) {
-      const cellRef = getCellRef(room * 2, 0);
-      ws[cellRef] = { t: 's', v: `Room ${room}` };
-      // Merge the room cells vertically to span 2 rows
-      ws['!merges'] = ws['!merges'] || [];
-      ws['!merges'].push({
-        s: { r: room * 2, c: 0 },
-        e: { r: room * 2 + 1, c: 0 }
-      });
-    }
+    // Constraints left over for people no longer on the roster stay listed but are not used
+    const { constraints: usableConstraints, unavailability: usableUnavailability } = getUsableConstraints({
+      faculty: newFaculty, staff: newStaff, days, constraints: newConstraints, unavailability: newUnavailability
+    });
 
-    // Fill in data for each room, day and person
-    for (let day = 1; day <= 6; day++) {
-      for (let room = 1; room <= 11; room++) {
-        // Find the entry for this day and room
-        const entry = schedule.entries.find(e => e.day === day && e.room === room);
+    setPendingRoster(null);
+    setFileName(pendingRoster.fileName);
+    setFaculty(newFaculty);
+    setStaff(newStaff);
+    setLocks(EMPTY_LOCKS);
+    setBaseline(null);
+    runGeneration({
+      engine,
+      faculty: newFaculty,
+      staff: newStaff,
+      options: {
+        preAssignedFaculty: toPreAssignedFaculty(usableConstraints),
+        unavailableDays: toUnavailableDays(usableUnavailability),
+        days,
+        calendar: examDays,
+        rooms: newRooms,
+        rankRules,
+        sessionsPerDay,
+        oneSessionPerDay
+      },
+      candidates: candidateCount,
+      scoring: { faculty: newFaculty, staff: newStaff, constraints: usableConstraints, unavailability: usableUnavailability, rankRules }
+    });
+  }, [pendingRoster, constraints, unavailability, runGeneration, engine, candidateCount, days, examDays, rooms, rankRules, sessionsPerDay, oneSessionPerDay]);
 
-        if (entry) {
-          // Faculty row (first row for each room)
-          const facultyCellRef = getCellRef(room * 2, day);
-          ws[facultyCellRef] = { t: 's', v: entry.faculty.name };
+  const downloadSchedule = useCallback(() => {
+    if (!schedule) return;
+    downloadScheduleWorkbook(schedule, exportFormat);
+    setBaseline(schedule);
+  }, [schedule, exportFormat]);
 
-          // Staff row (second row for each room)
-          const staffCellRef = getCellRef(room * 2 + 1, day);
-          ws[staffCellRef] = { t: 's', v: entry.staff.name };
-        }
-      }
-    }
+  const downloadPdf = useCallback(() => {
+    if (!schedule) return;
+    downloadSchedulePdf(schedule, documentSettings)
+      .then(() => setBaseline(schedule))
+      .catch(error => alert(`The PDF could not be made: ${error instanceof Error ? error.message : String(error)}`));
+  }, [schedule, documentSettings]);
 
-    // Set the range for the worksheet
-    ws['!ref'] = `A1:G${11 * 2 + 2}`;
-
-    // Add borders to all cells
-    const range = XLSX.utils.decode_range(ws['!ref']);
-    for (let row = range.s.r; row <= range.e.r; row++) {
-      for (let col = range.s.c; col <= range.e.c; col++) {
-        const cellRef = getCellRef(row, col);
-        if (ws[cellRef]) {
-          ws[cellRef].s = {
-            ...ws[cellRef].s,
-            border: {
-              top: { style: 'thin', color: { rgb: '000000' } },
-              bottom: { style: 'thin', color: { rgb: '000000' } },
-              left: { style: 'thin', color: { rgb: '000000' } },
-              right: { style: 'thin', color: { rgb: '000000' } }
-            }
-          };
-        }
-      }
+  // Calendar files need dates and valid session times; what is missing is reported
+  const downloadCalendars = useCallback((person?: Person) => {
+    if (!schedule) return;
+    const options = { sessionTimes, examName: documentSettings.examName };
+    try {
+      if (person) downloadPersonCalendar(schedule, person, options);
+      else downloadAllCalendars(schedule, options);
+    } catch (error) {
+      if (!(error instanceof CalendarExportError)) throw error;
+      alert(error.message);
     }
+  }, [schedule, sessionTimes, documentSettings]);
 
-    XLSX.utils.book_append_sheet(wb, ws, 'Examination Schedule');
-
-    // Duty counts sheet
-    const dutyCounts = [
-      ['Faculty Duties'],
-      ['Name', 'Count'],
-      ...schedule.facultyDuties.map(f => [f.name, f.count]),
-      [],
-      ['Staff Duties'],
-      ['Name', 'Count'],
-      ...schedule.staffDuties.map(s => [s.name, s.count])
-    ];
-    const dutyWs = XLSX.utils.aoa_to_sheet(dutyCounts);
-    XLSX.utils.book_append_sheet(wb, dutyWs, 'Duty Counts');
+  const updateSessionTime = (session: number, changes: Partial<SessionTime>) => {
+    setSessionTimes(Array.from({ length: MAX_SESSIONS_PER_DAY }, (_, i) => {
+      const time = getSessionTime(sessionTimes, i + 1);
+      return i + 1 === session ? { ...time, ...changes } : time;
+    }));
+  };
 
-    XLSX.writeFile(wb, 'examination-schedule.xlsx');
-  }, [schedule]);
+  const downloadChanges = useCallback(() => {
+    if (!schedule || !baseline) return;
+    downloadChangesWorkbook(diffSchedules(baseline, schedule), baseline, schedule);
+  }, [schedule, baseline]);
 
   const addConstraint = useCallback(() => {
     if (!newConstraintFaculty.trim()) {
@@ -198,6 +566,17 @@ function App() {
       return;
     }
 
+    // A faculty member cannot be fixed to a day they are unavailable
+    const clashesWithLeave = unavailability.some(u =>
+      u.personType === 'faculty' &&
+      u.personName === newConstraintFaculty &&
+      newConstraintDay >= u.fromDay && newConstraintDay <= u.toDay
+    );
+    if (clashesWithLeave) {
+      alert('This faculty member is marked unavailable on that day');
+      return;
+    }
+
     const newConstraint: FacultyConstraint = {
       facultyName: newConstraintFaculty,
       day: newConstraintDay
@@ -206,29 +585,124 @@ function App() {
     setConstraints(prev => [...prev, newConstraint]);
     setNewConstraintFaculty('');
     setNewConstraintDay(1);
-  }, [newConstraintFaculty, newConstraintDay, days, faculty, constraints]);
+  }, [newConstraintFaculty, newConstraintDay, days, faculty, constraints, unavailability]);
 
   const removeConstraint = useCallback((index: number) => {
     setConstraints(prev => prev.filter((_, i) => i !== index));
   }, []);
 
+  const addUnavailability = useCallback(() => {
+    if (!newBlockedPerson) {
+      alert('Please select a faculty or staff member');
+      return;
+    }
+
+    if (newBlockedFromDay < 1 || newBlockedToDay > days || newBlockedFromDay > newBlockedToDay) {
+      alert(`Days must form a range between 1 and ${days}`);
+      return;
+    }
+
+    const separator = newBlockedPerson.indexOf(':');
+    const personType = newBlockedPerson.slice(0, separator) as 'faculty' | 'staff';
+    const personName = newBlockedPerson.slice(separator + 1);
+
+    const pool = personType === 'faculty' ? faculty : staff;
+    if (!pool.some(p => p.name === personName)) {
+      alert('Selected person not found in the uploaded list');
+      return;
+    }
+
+    // Check for overlapping ranges for the same person
+    const overlapping = unavailability.some(u =>
+      u.personType === personType &&
+      u.personName === personName &&
+      u.fromDay <= newBlockedToDay && newBlockedFromDay <= u.toDay
+    );
+    if (overlapping) {
+      alert('This person is already unavailable on some of these days');
+      return;
+    }
+
+    // Check for clashes with fixed days
+    if (personType === 'faculty') {
+      const clashesWithFixedDay = constraints.some(c =>
+        c.facultyName === personName && c.day >= newBlockedFromDay && c.day <= newBlockedToDay
+      );
+      if (clashesWithFixedDay) {
+        alert('This faculty member is fixed to one of these days');
+        return;
+      }
+    }
+
+    const newUnavailability: UnavailabilityConstraint = {
+      personName,
+      personType,
+      fromDay: newBlockedFromDay,
+      toDay: newBlockedToDay
+    };
+
+    setUnavailability(prev => [...prev, newUnavailability]);
+    setNewBlockedPerson('');
+    setNewBlockedFromDay(1);
+    setNewBlockedToDay(1);
+  }, [newBlockedPerson, newBlockedFromDay, newBlockedToDay, days, faculty, staff, constraints, unavailability]);
+
+  const removeUnavailability = useCallback((index: number) => {
+    setUnavailability(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
   const generateAndSetSchedule = useCallback(() => {
-    const constraintMap: { [day: number]: string[] } = {};
-    constraints.forEach(constraint => {
-      if (!constraintMap[constraint.day]) {
-        constraintMap[constraint.day] = [];
+    let seed: number | undefined;
+    if (seedInput.trim()) {
+      seed = Number(seedInput.trim());
+      if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+        alert(`Seed must be a whole number between 0 and ${MAX_SEED}`);
+        return;
       }
-      constraintMap[constraint.day].push(constraint.facultyName);
+    }
+
+    // The exact engine reports infeasibility itself, with reasons
+    if (engine === 'greedy' && !feasibility.feasible &&
+      !confirm('No schedule can satisfy every rule with this setup (see the problems listed above). Generate anyway?')) {
+      return;
+    }
+
+    runGeneration({
+      engine,
+      faculty,
+      staff,
+      options: {
+        preAssignedFaculty: toPreAssignedFaculty(usable.constraints),
+        lockedAssignments: schedule ? getLockedAssignments(schedule, locks) : [],
+        unavailableDays: toUnavailableDays(usable.unavailability),
+        days,
+        calendar: examDays,
+        rooms,
+        rankRules,
+        sessionsPerDay,
+        oneSessionPerDay,
+        seed
+      },
+      candidates: candidateCount,
+      scoring: { faculty, staff, ...usable, rankRules }
     });
+  }, [runGeneration, engine, candidateCount, schedule, locks, faculty, staff, usable, days, examDays, rooms, rankRules, sessionsPerDay, oneSessionPerDay, seedInput, feasibility]);
 
-    const generatedSchedule = generateSchedule(faculty, staff, constraintMap, days, rooms);
-    setSchedule(generatedSchedule);
-    setIsGenerated(true);
-  }, [faculty, staff, constraints, days, rooms]);
+  // Check the current schedule against the roster and constraints as they stand now
+  const violations = useMemo(
+    () => schedule ? validateSchedule(schedule, { faculty, staff, ...usable, rankRules }) : [],
+    [schedule, faculty, staff, usable, rankRules]
+  );
 
-  console.log('Faculty:', faculty);
-  console.log('Staff:', staff);
-  console.log('Schedule:', schedule);
+  const scheduleChanges = useMemo(
+    () => schedule && baseline ? diffSchedules(baseline, schedule) : [],
+    [schedule, baseline]
+  );
+
+  const fairness = useMemo(
+    () => schedule ? scoreSchedule(schedule, { faculty, staff, ...usable, rankRules }, violations) : null,
+    [schedule, faculty, staff, usable, rankRules, violations]
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-8">
@@ -238,6 +712,19 @@ function App() {
             Examination Duty Schedule Generator
           </h1>
 
+          <SessionPanel
+            sessions={sessions}
+            current={session}
+            saveError={saveError}
+            onOpen={openSession}
+            onNew={newSession}
+            onRename={renameSession}
+            onDuplicate={duplicateSession}
+            onDelete={removeSession}
+            onExport={exportProject}
+            onImport={importProject}
+          />
+
           <div className="mb-8 relative">
             <label
               className="flex flex-col items-center justify-center w-full h-40 border-2 border-dashed rounded-xl cursor-pointer bg-gray-50/50 hover:bg-gray-50 transition-all duration-300 border-gray-300/50 hover:border-blue-400/50"
@@ -252,6 +739,10 @@ function App() {
                     setSchedule(null);
                     setIsGenerated(false);
                     setConstraints([]);
+                    setUnavailability([]);
+                    setLocks(EMPTY_LOCKS);
+                    setBaseline(null);
+                    setCandidates([]);
                   }}
                   className="absolute -right-2 -top-2 p-2 bg-red-400 rounded-full hover:bg-red-500 transition-colors"
                 >
@@ -278,19 +769,31 @@ function App() {
                     <p className="mb-2 text-sm text-gray-500">
                       <span className="font-semibold">Click to upload</span> or <span className="font-semibold">drop file here</span>
                     </p>
-                    <p className="text-xs text-gray-400">Excel file with Faculty and Staff columns</p>
+                    <p className="text-xs text-gray-400">Excel, OpenDocument or CSV file with Faculty and Staff columns, plus an optional Rooms sheet</p>
                   </>
                 )}
               </div>
               <input
                 type="file"
                 className="hidden"
-                accept=".xlsx,.xls"
+                accept={SPREADSHEET_FILE_TYPES}
                 onChange={handleFileUpload}
               />
             </label>
           </div>
 
+          {pendingRoster && (
+            <RosterImportWizard
+              key={pendingRoster.uploadId}
+              fileName={pendingRoster.fileName}
+              description={pendingRoster.description}
+              sheets={pendingRoster.sheets}
+              initialSheet={pendingRoster.rosterSheet}
+              onImport={importRoster}
+              onCancel={() => setPendingRoster(null)}
+            />
+          )}
+
           {/* Configuration Panel */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
             <div className="bg-gray-50 p-6 rounded-xl border border-gray-200">
@@ -307,58 +810,294 @@ function App() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Exam Start Date</label>
+                  <input
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {startDate && (
+                    <div className="mt-2 space-y-2">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={skipSundays}
+                          onChange={(e) => setSkipSundays(e.target.checked)}
+                          className="rounded border-gray-300"
+                        />
+                        Skip Sundays
+                      </label>
+                      <div className="flex gap-2">
+                        <input
+                          type="date"
+                          value={newHoliday}
+                          onChange={(e) => setNewHoliday(e.target.value)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                          onClick={() => {
+                            if (newHoliday && !holidays.includes(newHoliday)) {
+                              setHolidays([...holidays, newHoliday].sort());
+                            }
+                            setNewHoliday('');
+                          }}
+                          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                          title="Add holiday"
+                        >
+                          <Plus className="w-4 h-4" />
+                        </button>
+                      </div>
+                      {holidays.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {holidays.map(holiday => (
+                            <span key={holiday} className="flex items-center gap-1 px-2 py-1 text-xs bg-white border rounded">
+                              Holiday {formatDayTitle({ day: 0, date: holiday })}
+                              <button
+                                onClick={() => setHolidays(holidays.filter(h => h !== holiday))}
+                                className="text-red-500 hover:text-red-700"
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        {formatDayLabel(examDays[0])} to {formatDayLabel(examDays[examDays.length - 1])}
+                      </p>
+                    </div>
+                  )}
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Number of Rooms</label>
                   <input
                     type="number"
                     min="1"
                     max="20"
-                    value={rooms}
-                    onChange={(e) => setRooms(parseInt(e.target.value) || 11)}
+                    value={rooms.length}
+                    onChange={(e) => setRooms(prev => resizeRooms(prev, parseInt(e.target.value) || 11))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Sessions per Day</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={MAX_SESSIONS_PER_DAY}
+                    value={sessionsPerDay}
+                    onChange={(e) => setSessionsPerDay(Math.min(MAX_SESSIONS_PER_DAY, parseInt(e.target.value) || 1))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {sessionsPerDay > 1 && (
+                    <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={oneSessionPerDay}
+                        onChange={(e) => setOneSessionPerDay(e.target.checked)}
+                        className="rounded border-gray-300"
+                      />
+                      No two sessions on the same day for one person
+                    </label>
+                  )}
+                  {Array.from({ length: sessionsPerDay }, (_, i) => i + 1).map(session => (
+                    <div key={session} className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                      <span className="w-20">{getSessionLabel(session)}</span>
+                      <input
+                        type="time"
+                        value={getSessionTime(sessionTimes, session).start}
+                        onChange={(e) => e.target.value && updateSessionTime(session, { start: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <span>to</span>
+                      <input
+                        type="time"
+                        value={getSessionTime(sessionTimes, session).end}
+                        onChange={(e) => e.target.value && updateSessionTime(session, { end: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Seed</label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value)}
+                    placeholder="Random"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
+                  {schedule && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      Current schedule seed: <span className="font-mono">{schedule.seed}</span>
+                      {/* The seed reproduces the schedule when it is generated alone, not as one of several candidates */}
+                      {(seedInput.trim() !== String(schedule.seed) || candidateCount !== 1) && (
+                        <button
+                          onClick={() => {
+                            setSeedInput(String(schedule.seed));
+                            setCandidateCount(1);
+                          }}
+                          className="ml-2 text-blue-600 hover:text-blue-800"
+                        >
+                          Use this seed
+                        </button>
+                      )}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Engine</label>
+                  <select
+                    value={engine}
+                    onChange={(e) => setEngine(e.target.value as SchedulingEngine)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {SCHEDULING_ENGINES.map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                  <p className="mt-2 text-xs text-gray-500">
+                    {SCHEDULING_ENGINES.find(option => option.id === engine)?.description}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Candidates</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={MAX_CANDIDATES}
+                    value={candidateCount}
+                    onChange={(e) => setCandidateCount(Math.min(MAX_CANDIDATES, Math.max(1, parseInt(e.target.value) || 1)))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="mt-2 text-xs text-gray-500">
+                    Generate this many schedules and keep the fairest
+                  </p>
                 </div>
               </div>
             </div>
 
             <div className="bg-gray-50 p-6 rounded-xl border border-gray-200">
               <h3 className="text-lg font-semibold text-gray-800 mb-4">Faculty Day Fixing</h3>
-              {faculty.length > 0 ? (
+              {faculty.length > 0 || staff.length > 0 ? (
                 <div className="space-y-4">
-                  <div className="flex gap-2">
-                    <select
-                      value={newConstraintFaculty}
-                      onChange={(e) => setNewConstraintFaculty(e.target.value)}
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  <div className="flex gap-2 text-sm">
+                    <button
+                      onClick={() => setConstraintMode('fixed')}
+                      className={`px-3 py-1 rounded-lg border ${constraintMode === 'fixed' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'}`}
                     >
-                      <option value="">Select Faculty</option>
-                      {faculty.map((f, index) => (
-                        <option key={index} value={f.name}>{f.name}</option>
-                      ))}
-                    </select>
-                    <input
-                      type="number"
-                      min="1"
-                      max={days}
-                      value={newConstraintDay}
-                      onChange={(e) => setNewConstraintDay(parseInt(e.target.value) || 1)}
-                      placeholder="Day"
-                      className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
+                      Fixed day
+                    </button>
                     <button
-                      onClick={addConstraint}
-                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                      onClick={() => setConstraintMode('unavailable')}
+                      className={`px-3 py-1 rounded-lg border ${constraintMode === 'unavailable' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300'}`}
                     >
-                      <Plus className="w-4 h-4" />
+                      Unavailable
                     </button>
                   </div>
 
-                  {constraints.length > 0 && (
+                  {constraintMode === 'fixed' ? (
+                    <div className="flex gap-2">
+                      <select
+                        value={newConstraintFaculty}
+                        onChange={(e) => setNewConstraintFaculty(e.target.value)}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Select Faculty</option>
+                        {faculty.map((f, index) => (
+                          <option key={index} value={f.name}>{f.name}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="1"
+                        max={days}
+                        value={newConstraintDay}
+                        onChange={(e) => setNewConstraintDay(parseInt(e.target.value) || 1)}
+                        placeholder="Day"
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={addConstraint}
+                        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <select
+                        value={newBlockedPerson}
+                        onChange={(e) => setNewBlockedPerson(e.target.value)}
+                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Select Person</option>
+                        <optgroup label="Faculty">
+                          {faculty.map((f, index) => (
+                            <option key={index} value={`faculty:${f.name}`}>{f.name}</option>
+                          ))}
+                        </optgroup>
+                        <optgroup label="Staff">
+                          {staff.map((s, index) => (
+                            <option key={index} value={`staff:${s.name}`}>{s.name}</option>
+                          ))}
+                        </optgroup>
+                      </select>
+                      <input
+                        type="number"
+                        min="1"
+                        max={days}
+                        value={newBlockedFromDay}
+                        onChange={(e) => {
+                          const day = parseInt(e.target.value) || 1;
+                          setNewBlockedFromDay(day);
+                          if (newBlockedToDay < day) setNewBlockedToDay(day);
+                        }}
+                        placeholder="From"
+                        className="w-16 px-2 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <input
+                        type="number"
+                        min={newBlockedFromDay}
+                        max={days}
+                        value={newBlockedToDay}
+                        onChange={(e) => setNewBlockedToDay(parseInt(e.target.value) || 1)}
+                        placeholder="To"
+                        className="w-16 px-2 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={addUnavailability}
+                        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+
+                  {(constraints.length > 0 || unavailability.length > 0) && (
+                    <div className="flex justify-end">
+                      <button
+                        onClick={() => downloadConstraintsWorkbook(constraints, unavailability, examDays)}
+                        className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                        title="Download as a Constraints sheet that can be uploaded with the roster"
+                      >
+                        <Download className="w-4 h-4" />
+                        Export list
+                      </button>
+                    </div>
+                  )}
+
+                  {(constraints.length > 0 || unavailability.length > 0) && (
                     <div className="space-y-2 max-h-32 overflow-y-auto">
                       {constraints.map((constraint, index) => (
-                        <div key={index} className="flex items-center justify-between bg-white p-2 rounded border">
+                        <div key={`fixed-${index}`} className="flex items-center justify-between bg-white p-2 rounded border">
                           <span className="text-sm text-gray-700">
-                            {constraint.facultyName} - Day {constraint.day}
+                            {constraint.facultyName} - {formatDayLabel(getExamDay(examDays, constraint.day))}
+                            {constraint.note && <span className="text-gray-500"> ({constraint.note})</span>}
                           </span>
                           <button
                             onClick={() => removeConstraint(index)}
@@ -368,6 +1107,22 @@ function App() {
                           </button>
                         </div>
                       ))}
+                      {unavailability.map((u, index) => (
+                        <div key={`blocked-${index}`} className="flex items-center justify-between bg-red-50 p-2 rounded border border-red-100">
+                          <span className="text-sm text-gray-700">
+                            {u.personName} ({u.personType}) - unavailable {u.fromDay === u.toDay
+                              ? formatDayLabel(getExamDay(examDays, u.fromDay))
+                              : `${formatDayLabel(getExamDay(examDays, u.fromDay))} – ${formatDayLabel(getExamDay(examDays, u.toDay))}`}
+                            {u.note && <span className="text-gray-500"> ({u.note})</span>}
+                          </span>
+                          <button
+                            onClick={() => removeUnavailability(index)}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
                     </div>
                   )}
                 </div>
@@ -377,6 +1132,16 @@ function App() {
             </div>
           </div>
 
+          <RoomSettings rooms={rooms} onChange={setRooms} />
+
+          <RankSettings rules={rankRules} people={[...faculty, ...staff]} onChange={setRankRules} />
+
+          <DocumentSettingsPanel settings={documentSettings} onChange={setDocumentSettings} />
+
+          {(faculty.length > 0 || staff.length > 0) && (
+            <FeasibilityPanel report={feasibility} />
+          )}
+
           <div className="flex justify-center mb-8">
             <button
               onClick={() => {
@@ -386,25 +1151,99 @@ function App() {
                 }
                 generateAndSetSchedule();
               }}
-              className="flex items-center gap-2 px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+              disabled={progress !== null}
+              className="flex items-center gap-2 px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              <RefreshCw className="w-5 h-5" />
-              {isGenerated ? 'Regenerate Schedule' : 'Generate Schedule'}
+              <RefreshCw className={`w-5 h-5 ${progress ? 'animate-spin' : ''}`} />
+              {progress ? 'Generating...' : isGenerated ? 'Regenerate Schedule' : 'Generate Schedule'}
             </button>
 
-            {isGenerated && (
+            {progress && (
               <button
-                onClick={downloadSchedule}
-                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors ml-4"
+                onClick={cancelGeneration}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors ml-4"
               >
-                <Download className="w-4 h-4" />
-                Download
+                <X className="w-4 h-4" />
+                Cancel
               </button>
             )}
+
+            {isGenerated && (
+              <>
+                <button
+                  onClick={downloadSchedule}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors ml-4"
+                >
+                  <Download className="w-4 h-4" />
+                  Download
+                </button>
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as SpreadsheetFormat)}
+                  className="ml-2 px-2 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="File format"
+                >
+                  {SPREADSHEET_FORMATS.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={downloadPdf}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors ml-4"
+                  title="Duty roster and a duty letter for each person"
+                >
+                  <FileText className="w-4 h-4" />
+                  PDF
+                </button>
+              </>
+            )}
           </div>
 
+          {progress && (
+            <p className="-mt-4 mb-8 text-center text-sm text-gray-600">{describeProgress(progress)}</p>
+          )}
+
           {schedule && (
-            <ScheduleDisplay schedule={schedule} />
+            <>
+              <CandidateBrowser
+                candidates={candidates}
+                current={schedule}
+                onSelect={setSchedule}
+                onKeep={() => setCandidates([])}
+              />
+              {baseline && (
+                <ScheduleDiffPanel
+                  baseline={baseline}
+                  current={schedule}
+                  diffs={scheduleChanges}
+                  onExport={downloadChanges}
+                  onAccept={() => setBaseline(schedule)}
+                />
+              )}
+              <CalendarExportPanel
+                people={listDutyHolders(schedule)}
+                onDownloadPerson={downloadCalendars}
+                onDownloadAll={() => downloadCalendars()}
+              />
+              <ValidationPanel violations={violations} />
+              <ReplacementPanel
+                schedule={schedule}
+                people={[...faculty, ...staff]}
+                summary={replacement}
+                onReplace={replacePerson}
+                onDismiss={() => setReplacement(null)}
+              />
+              <ScheduleDisplay
+                schedule={schedule}
+                score={fairness ?? undefined}
+                violations={violations}
+                people={[...faculty, ...staff]}
+                rankRules={rankRules}
+                onChange={editSchedule}
+                locks={locks}
+                onLocksChange={setLocks}
+              />
+            </>
           )}
         </div>
       </div>
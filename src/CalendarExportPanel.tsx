@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { CalendarDays, Download } from 'lucide-react';
+import { Person } from './types';
+
+interface CalendarExportPanelProps {
+    people: Person[]; // Everyone with duties
+    onDownloadPerson: (person: Person) => void;
+    onDownloadAll: () => void;
+}
+
+const personKey = (person: Person): string => `${person.type}:${person.name}`;
+
+const CalendarExportPanel: React.FC<CalendarExportPanelProps> = ({ people, onDownloadPerson, onDownloadAll }) => {
+    const [selected, setSelected] = useState<string>('');
+
+    if (people.length === 0) return null;
+
+    const person = people.find((p: Person) => personKey(p) === selected) ?? people[0];
+
+    return (
+        <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 mb-6">
+            <div className="flex flex-wrap items-center gap-3">
+                <CalendarDays className="w-5 h-5 text-gray-600" />
+                <h3 className="font-semibold text-gray-800 mr-auto">Calendar Files</h3>
+                <select
+                    value={personKey(person)}
+                    onChange={(e) => setSelected(e.target.value)}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {people.map((p: Person) => (
+                        <option key={personKey(p)} value={personKey(p)}>
+                            {p.name} ({p.type === 'faculty' ? 'Faculty' : 'Staff'})
+                        </option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => onDownloadPerson(person)}
+                    className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                    <Download className="w-4 h-4" />
+                    .ics
+                </button>
+                <button
+                    onClick={onDownloadAll}
+                    className="flex items-center gap-1 px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:border-gray-400"
+                >
+                    <Download className="w-4 h-4" />
+                    Everyone (.zip)
+                </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+                One event per duty with the room, session time and co-invigilators, to add to Google Calendar, Outlook or a phone.
+            </p>
+        </div>
+    );
+};
+
+export default CalendarExportPanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Schedule } from './types';
+import { ScoredSchedule, formatScore } from './utils/fairness';
+
+interface CandidateBrowserProps {
+    candidates: ScoredSchedule[]; // Best first
+    current: Schedule;
+    onSelect: (schedule: Schedule) => void;
+    onKeep: () => void;
+}
+
+const CandidateBrowser: React.FC<CandidateBrowserProps> = ({ candidates, current, onSelect, onKeep }) => {
+    if (candidates.length < 2) return null;
+
+    return (
+        <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 mb-6">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-gray-800">Top Candidates</h3>
+                <button
+                    onClick={onKeep}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                    Keep this one
+                </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+                {candidates.map(({ schedule, score }: ScoredSchedule, index: number) => (
+                    <button
+                        key={schedule.seed}
+                        onClick={() => onSelect(schedule)}
+                        className={`px-3 py-2 text-sm rounded-lg border text-left ${schedule === current
+                            ? "bg-blue-500 border-blue-500 text-white"
+                            : "bg-white border-gray-300 text-gray-700 hover:border-gray-400"
+                            }`}
+                    >
+                        <div className="font-medium">#{index + 1} · score {formatScore(score)}</div>
+                        <div className={`text-xs ${schedule === current ? 'text-blue-100' : 'text-gray-500'}`}>
+                            spread {score.dutySpread}, {score.consecutiveDays} back-to-back, {score.errors} errors, seed {schedule.seed}
+                        </div>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default CandidateBrowser;
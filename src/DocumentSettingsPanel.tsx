@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { DocumentSettings } from './types';
+
+interface DocumentSettingsPanelProps {
+    settings: DocumentSettings;
+    onChange: (settings: DocumentSettings) => void;
+}
+
+const FIELDS: { id: keyof DocumentSettings; label: string; placeholder: string }[] = [
+    { id: 'institute', label: 'Institute', placeholder: 'Indian Institute of Information Technology Raichur' },
+    { id: 'subtitle', label: 'Department or address', placeholder: 'Examination Section' },
+    { id: 'examName', label: 'Examination', placeholder: 'End-Semester Examination, Autumn 2026' },
+    { id: 'signatoryName', label: 'Signed by', placeholder: 'Name' },
+    { id: 'signatoryTitle', label: 'Designation', placeholder: 'Controller of Examinations' }
+];
+
+const DocumentSettingsPanel: React.FC<DocumentSettingsPanelProps> = ({ settings, onChange }) => {
+    const [expanded, setExpanded] = useState<boolean>(false);
+
+    return (
+        <div className="bg-gray-50 p-6 rounded-xl border border-gray-200 mb-8">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center justify-between text-left"
+            >
+                <h3 className="text-lg font-semibold text-gray-800">Printed Documents</h3>
+                <span className="text-sm text-gray-500">
+                    {settings.institute.trim() || 'No institute set'} {expanded ? "▲" : "▼"}
+                </span>
+            </button>
+
+            {expanded && (
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {FIELDS.map(field => (
+                        <label key={field.id} className="text-sm text-gray-700">
+                            {field.label}
+                            <input
+                                type="text"
+                                value={settings[field.id]}
+                                onChange={(e) => onChange({ ...settings, [field.id]: e.target.value })}
+                                placeholder={field.placeholder}
+                                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        </label>
+                    ))}
+                    <p className="md:col-span-2 text-xs text-gray-500">
+                        Printed at the top and in the signature block of the PDF roster and duty letters.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DocumentSettingsPanel;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { FeasibilityIssue, FeasibilityReport } from './utils/feasibility';
+
+interface FeasibilityPanelProps {
+    report: FeasibilityReport;
+}
+
+const FeasibilityPanel: React.FC<FeasibilityPanelProps> = ({ report }) => {
+    if (report.issues.length === 0) return null;
+
+    return (
+        <div className={`p-4 rounded-xl border mb-8 ${report.feasible ? 'bg-amber-50 border-amber-200' : 'bg-red-50 border-red-200'}`}>
+            <h3 className="font-semibold text-gray-800 mb-1">
+                {report.feasible ? 'Schedule can be generated, with compromises' : 'No valid schedule exists for this setup'}
+            </h3>
+            <p className="text-sm text-gray-600 mb-3">
+                {report.totalPositions} duties needed, at most {report.totalPersonSlots} can be covered by the roster.
+            </p>
+            <ul className="space-y-2">
+                {report.issues.map((issue: FeasibilityIssue, index: number) => (
+                    <li key={index} className="text-sm">
+                        <span className={`mr-2 text-xs uppercase font-medium ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+                            {issue.severity}
+                        </span>
+                        <span className="text-gray-800">{issue.message}</span>
+                        <div className="ml-6 text-gray-500">{issue.suggestion}</div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default FeasibilityPanel;
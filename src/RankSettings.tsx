@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Person, RankRule } from './types';
+import { findRankRule, getUnmatchedRanks } from './utils/ranks';
+
+interface RankSettingsProps {
+    rules: RankRule[];
+    people: Person[];
+    onChange: (rules: RankRule[]) => void;
+}
+
+const RankSettings: React.FC<RankSettingsProps> = ({ rules, people, onChange }) => {
+    const [expanded, setExpanded] = useState<boolean>(false);
+
+    const updateRule = (index: number, changes: Partial<RankRule>) => {
+        onChange(rules.map((rule: RankRule, i: number) => i === index ? { ...rule, ...changes } : rule));
+    };
+
+    const addRule = () => {
+        const nextLevel = rules.reduce((max: number, rule: RankRule) => Math.max(max, rule.level), 0) + 1;
+        onChange([...rules, { rank: '', level: nextLevel, maxDuties: null }]);
+    };
+
+    const countPeople = (rule: RankRule): number =>
+        people.filter((person: Person) => findRankRule(rules, person.rank) === rule).length;
+
+    const rankedPeople = people.filter((person: Person) => person.rank).length;
+    const unmatchedRanks = getUnmatchedRanks(people, rules);
+
+    return (
+        <div className="bg-gray-50 p-6 rounded-xl border border-gray-200 mb-8">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center justify-between text-left"
+            >
+                <h3 className="text-lg font-semibold text-gray-800">Designations &amp; Duty Caps</h3>
+                <span className="text-sm text-gray-500">
+                    {people.length > 0 && rankedPeople === 0
+                        ? "No designations in roster, using roster order"
+                        : `${rules.length} designations`} {expanded ? "▲" : "▼"}
+                </span>
+            </button>
+
+            {expanded && (
+                <div className="mt-4 overflow-x-auto">
+                    <p className="text-sm text-gray-500 mb-3">
+                        Level 1 is the most senior. Leave the cap empty to give a designation the fair share of duties.
+                    </p>
+                    <table className="min-w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-500">
+                                <th className="py-2 pr-4 font-medium">Designation</th>
+                                <th className="py-2 pr-4 font-medium">Level</th>
+                                <th className="py-2 pr-4 font-medium">Max Duties</th>
+                                <th className="py-2 pr-4 font-medium">People</th>
+                                <th className="py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rules.map((rule: RankRule, index: number) => (
+                                <tr key={index} className="border-t border-gray-200">
+                                    <td className="py-2 pr-4">
+                                        <input
+                                            type="text"
+                                            value={rule.rank}
+                                            onChange={(e) => updateRule(index, { rank: e.target.value })}
+                                            className="w-48 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    <td className="py-2 pr-4">
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={rule.level}
+                                            onChange={(e) => updateRule(index, { level: Math.max(1, parseInt(e.target.value) || 1) })}
+                                            className="w-20 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    <td className="py-2 pr-4">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={rule.maxDuties ?? ''}
+                                            onChange={(e) => updateRule(index, {
+                                                maxDuties: e.target.value ? Math.max(0, parseInt(e.target.value) || 0) : null
+                                            })}
+                                            placeholder="Fair share"
+                                            className="w-28 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    <td className="py-2 pr-4 text-gray-600">{countPeople(rule)}</td>
+                                    <td className="py-2">
+                                        <button
+                                            onClick={() => onChange(rules.filter((_, i: number) => i !== index))}
+                                            className="text-red-500 hover:text-red-700"
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <button
+                        onClick={addRule}
+                        className="mt-3 text-sm text-blue-600 hover:text-blue-800"
+                    >
+                        + Add designation
+                    </button>
+                    {unmatchedRanks.length > 0 && (
+                        <p className="mt-3 text-sm text-amber-700">
+                            Not matched to any designation (treated as most junior): {unmatchedRanks.join(', ')}
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RankSettings;
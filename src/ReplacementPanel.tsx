@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { ExamDay, Person, Schedule } from './types';
+import { ReplacementChange } from './utils/replacement';
+import { formatDayLabel, getExamDay } from './utils/calendar';
+import { formatSlot } from './utils/scheduleDiff';
+
+// The last replacement made, for showing what moved
+export interface ReplacementSummary {
+    name: string;
+    fromDay: number;
+    changes: ReplacementChange[];
+    changedPeople: string[];
+}
+
+interface ReplacementPanelProps {
+    schedule: Schedule;
+    people: Person[];
+    summary: ReplacementSummary | null;
+    onReplace: (person: Person, fromDay: number) => void;
+    onDismiss: () => void;
+}
+
+const personKey = (person: Person): string => `${person.type}:${person.name}`;
+
+const ReplacementPanel: React.FC<ReplacementPanelProps> = ({ schedule, people, summary, onReplace, onDismiss }) => {
+    const [selected, setSelected] = useState<string>('');
+    const [fromDay, setFromDay] = useState<number>(1);
+
+    return (
+        <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 mb-6">
+            <h3 className="font-semibold text-gray-800 mb-3">Replace Someone Who Drops Out</h3>
+            <div className="flex flex-wrap gap-2 items-center text-sm">
+                <select
+                    value={selected}
+                    onChange={(e) => setSelected(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    <option value="">Select person</option>
+                    {people.map((person: Person) => (
+                        <option key={personKey(person)} value={personKey(person)}>{person.name} ({person.type})</option>
+                    ))}
+                </select>
+                <span className="text-gray-600">from</span>
+                <select
+                    value={fromDay}
+                    onChange={(e) => setFromDay(Number(e.target.value))}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {schedule.calendar.map((examDay: ExamDay) => (
+                        <option key={examDay.day} value={examDay.day}>{formatDayLabel(examDay)}</option>
+                    ))}
+                </select>
+                <span className="text-gray-600">onwards</span>
+                <button
+                    onClick={() => {
+                        const person = people.find((p: Person) => personKey(p) === selected);
+                        if (!person) {
+                            alert('Please select a person');
+                            return;
+                        }
+                        onReplace(person, fromDay);
+                    }}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                    Replace
+                </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+                Earlier days stay as they are; substitutes are chosen so as few other people as possible are affected.
+            </p>
+
+            {summary && (
+                <div className="mt-4 bg-white p-3 rounded-lg border border-gray-200">
+                    <div className="flex items-center justify-between mb-2">
+                        <div className="text-sm font-medium text-gray-800">
+                            {summary.name} replaced from {formatDayLabel(getExamDay(schedule.calendar, summary.fromDay))}:{' '}
+                            {summary.changes.length} places changed, {summary.changedPeople.length} other people affected
+                        </div>
+                        <button onClick={onDismiss} className="text-gray-400 hover:text-gray-600">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                    {summary.changes.length === 0 ? (
+                        <p className="text-sm text-gray-500">{summary.name} had no duties from that day on.</p>
+                    ) : (
+                        <ul className="text-sm text-gray-700 space-y-1">
+                            {summary.changes.map((change: ReplacementChange, index: number) => (
+                                <li key={index}>
+                                    <span className="text-gray-500">{formatSlot(schedule, change)}:</span>{' '}
+                                    {change.removed} → {change.added ?? <span className="text-red-600">nobody available</span>}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReplacementPanel;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Room } from './types';
+
+interface RoomSettingsProps {
+    rooms: Room[];
+    onChange: (rooms: Room[]) => void;
+}
+
+const MAX_INVIGILATORS_PER_ROOM = 6;
+
+const RoomSettings: React.FC<RoomSettingsProps> = ({ rooms, onChange }) => {
+    const [expanded, setExpanded] = useState<boolean>(false);
+
+    const updateRoom = (id: number, changes: Partial<Room>) => {
+        onChange(rooms.map((room: Room) => room.id === id ? { ...room, ...changes } : room));
+    };
+
+    const totalInvigilators = rooms.reduce((sum: number, room: Room) => sum + room.invigilators, 0);
+
+    return (
+        <div className="bg-gray-50 p-6 rounded-xl border border-gray-200 mb-8">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center justify-between text-left"
+            >
+                <h3 className="text-lg font-semibold text-gray-800">Room Setup</h3>
+                <span className="text-sm text-gray-500">
+                    {rooms.length} rooms, {totalInvigilators} invigilators per session {expanded ? "▲" : "▼"}
+                </span>
+            </button>
+
+            {expanded && (
+                <div className="mt-4 overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-500">
+                                <th className="py-2 pr-4 font-medium">Room</th>
+                                <th className="py-2 pr-4 font-medium">Building / Floor</th>
+                                <th className="py-2 pr-4 font-medium">Capacity</th>
+                                <th className="py-2 pr-4 font-medium">Invigilators</th>
+                                <th className="py-2 font-medium">Needs Faculty</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rooms.map((room: Room) => (
+                                <tr key={room.id} className="border-t border-gray-200">
+                                    <td className="py-2 pr-4">
+                                        <input
+                                            type="text"
+                                            value={room.name}
+                                            onChange={(e) => updateRoom(room.id, { name: e.target.value })}
+                                            className="w-40 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    <td className="py-2 pr-4 whitespace-nowrap">
+                                        <input
+                                            type="text"
+                                            value={room.building ?? ''}
+                                            onChange={(e) => updateRoom(room.id, { building: e.target.value || undefined })}
+                                            placeholder="Building"
+                                            className="w-28 px-2 py-1 mr-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                        <input
+                                            type="text"
+                                            value={room.floor ?? ''}
+                                            onChange={(e) => updateRoom(room.id, { floor: e.target.value || undefined })}
+                                            placeholder="Floor"
+                                            className="w-16 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    <td className="py-2 pr-4">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={room.capacity ?? ''}
+                                            onChange={(e) => updateRoom(room.id, {
+                                                capacity: e.target.value ? parseInt(e.target.value) : undefined
+                                            })}
+                                            placeholder="—"
+                                            className="w-24 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    <td className="py-2 pr-4">
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            max={MAX_INVIGILATORS_PER_ROOM}
+                                            value={room.invigilators}
+                                            onChange={(e) => updateRoom(room.id, {
+                                                invigilators: Math.min(MAX_INVIGILATORS_PER_ROOM, Math.max(1, parseInt(e.target.value) || 1))
+                                            })}
+                                            className="w-20 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                        />
+                                    </td>
+                                    <td className="py-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={room.requiresFaculty}
+                                            onChange={(e) => updateRoom(room.id, { requiresFaculty: e.target.checked })}
+                                            className="rounded border-gray-300"
+                                        />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RoomSettings;
@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { Person } from './types';
+import { SheetIssue, SheetRows, columnLetter } from './utils/spreadsheet';
+import {
+    ROSTER_FIELDS,
+    Roster,
+    RosterField,
+    RosterMapping,
+    detectHeaderRow,
+    guessRosterMapping,
+    parseRoster
+} from './utils/rosterImport';
+
+interface RosterImportWizardProps {
+    fileName: string;
+    description: string;
+    sheets: SheetRows[];
+    initialSheet: string;
+    onImport: (roster: Roster) => void;
+    onCancel: () => void;
+}
+
+const RosterImportWizard: React.FC<RosterImportWizardProps> = ({ fileName, description, sheets, initialSheet, onImport, onCancel }) => {
+    const rowsOf = (name: string): string[][] => sheets.find((sheet: SheetRows) => sheet.name === name)?.rows ?? [];
+
+    const [sheetName, setSheetName] = useState<string>(initialSheet);
+    const [headerRow, setHeaderRow] = useState<number>(() => detectHeaderRow(rowsOf(initialSheet)));
+    const [mapping, setMapping] = useState<RosterMapping>(() => guessRosterMapping(rowsOf(initialSheet)[headerRow] ?? []));
+
+    const rows = rowsOf(sheetName);
+    const headers = rows[headerRow] ?? [];
+
+    const roster = useMemo(() => parseRoster(rows, headerRow, mapping), [rows, headerRow, mapping]);
+
+    // Picking another sheet or header row maps the columns afresh
+    const selectSheet = (name: string) => {
+        const detected = detectHeaderRow(rowsOf(name));
+        setSheetName(name);
+        setHeaderRow(detected);
+        setMapping(guessRosterMapping(rowsOf(name)[detected] ?? []));
+    };
+
+    const selectHeaderRow = (index: number) => {
+        setHeaderRow(index);
+        setMapping(guessRosterMapping(rows[index] ?? []));
+    };
+
+    const mapField = (field: RosterField, value: string) => {
+        const next = { ...mapping };
+        if (value === '') delete next[field];
+        else next[field] = Number(value);
+        setMapping(next);
+    };
+
+    const describePerson = (person: Person): string => [
+        person.rank,
+        person.maxDuties !== undefined && `max ${person.maxDuties}`,
+        person.minDuties !== undefined && `min ${person.minDuties}`,
+        person.exempt && 'exempt'
+    ].filter(Boolean).join(', ');
+
+    const selectClass = "w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+    return (
+        <div className="bg-gray-50 p-6 rounded-xl border border-blue-200 mb-8">
+            <h3 className="text-lg font-semibold text-gray-800">Import Roster from {fileName}</h3>
+            <p className="text-xs text-gray-500 mb-4">{description}</p>
+
+            <div className="flex flex-wrap gap-4 mb-4 text-sm">
+                <label className="flex items-center gap-2 text-gray-700">
+                    Sheet
+                    <select value={sheetName} onChange={(e) => selectSheet(e.target.value)} className={selectClass}>
+                        {sheets.map((sheet: SheetRows) => (
+                            <option key={sheet.name} value={sheet.name}>{sheet.name}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2 text-gray-700">
+                    Header row
+                    <input
+                        type="number"
+                        min="1"
+                        max={Math.max(1, rows.length)}
+                        value={headerRow + 1}
+                        onChange={(e) => selectHeaderRow(Math.min(Math.max(1, parseInt(e.target.value) || 1), Math.max(1, rows.length)) - 1)}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                </label>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-4">
+                {ROSTER_FIELDS.map(field => (
+                    <label key={field.id} className="text-xs text-gray-600">
+                        {field.label}
+                        <select
+                            value={mapping[field.id] ?? ''}
+                            onChange={(e) => mapField(field.id, e.target.value)}
+                            className={selectClass}
+                        >
+                            <option value="">Not used</option>
+                            {headers.map((header: string, column: number) => (
+                                <option key={column} value={column}>
+                                    {columnLetter(column)}{header.trim() ? `: ${header.trim()}` : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                {([['Faculty', roster.faculty], ['Staff', roster.staff]] as [string, Person[]][]).map(([title, people]) => (
+                    <div key={title} className="bg-white p-3 rounded-lg border border-gray-200">
+                        <div className="text-sm font-medium text-gray-800 mb-2">{title} ({people.length})</div>
+                        <ul className="text-sm text-gray-700 max-h-48 overflow-y-auto space-y-1">
+                            {people.map((person: Person) => (
+                                <li key={person.name}>
+                                    {person.name}
+                                    {describePerson(person) && <span className="text-gray-500"> · {describePerson(person)}</span>}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+
+            {roster.issues.length > 0 && (
+                <div className="bg-amber-50 p-3 rounded-lg border border-amber-200 mb-4">
+                    <div className="text-sm font-medium text-gray-800 mb-2">
+                        {roster.issues.length} rows skipped or changed
+                    </div>
+                    <ul className="text-sm text-gray-700 max-h-40 overflow-y-auto space-y-1">
+                        {roster.issues.map((issue: SheetIssue, index: number) => (
+                            <li key={index}>
+                                <span className="text-gray-500">Row {issue.row}:</span> {issue.message}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:border-gray-400"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onImport({ faculty: roster.faculty, staff: roster.staff })}
+                    disabled={roster.faculty.length === 0 && roster.staff.length === 0}
+                    className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Import {roster.faculty.length} faculty and {roster.staff.length} staff
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default RosterImportWizard;
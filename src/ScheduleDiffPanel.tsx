@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Schedule } from './types';
+import { DUTY_CHANGE_LABELS, DutyChange, PersonDiff, formatSlot } from './utils/scheduleDiff';
+
+interface ScheduleDiffPanelProps {
+    baseline: Schedule; // The version already circulated
+    current: Schedule;
+    diffs: PersonDiff[];
+    onExport: () => void;
+    onAccept: () => void; // Make the current schedule the new baseline
+}
+
+const ScheduleDiffPanel: React.FC<ScheduleDiffPanelProps> = ({ baseline, current, diffs, onExport, onAccept }) => {
+    const [expanded, setExpanded] = useState<boolean>(false);
+
+    if (diffs.length === 0) return null;
+
+    const changeCount = diffs.reduce((sum: number, diff: PersonDiff) => sum + diff.changes.length, 0);
+
+    const describe = (change: DutyChange): string => {
+        const was = change.before ? formatSlot(baseline, change.before) : '';
+        const now = change.after ? formatSlot(current, change.after) : '';
+        if (change.kind === 'added') return now;
+        if (change.kind === 'removed') return was;
+        return `${was} → ${now}`;
+    };
+
+    return (
+        <div className="bg-blue-50 p-4 rounded-xl border border-blue-200 mb-6">
+            <div className="flex items-center justify-between">
+                <button onClick={() => setExpanded(!expanded)} className="text-left">
+                    <h3 className="font-semibold text-gray-800">Changes Since Last Export</h3>
+                    <span className="text-sm text-gray-600">
+                        {changeCount} duties changed for {diffs.length} people {expanded ? "▲" : "▼"}
+                    </span>
+                </button>
+                <div className="flex gap-2">
+                    <button
+                        onClick={onExport}
+                        className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                        <Download className="w-4 h-4" />
+                        Export Changes
+                    </button>
+                    <button
+                        onClick={onAccept}
+                        className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:border-gray-400"
+                    >
+                        Mark as Circulated
+                    </button>
+                </div>
+            </div>
+
+            {expanded && (
+                <div className="mt-3 space-y-3 max-h-80 overflow-y-auto">
+                    {diffs.map((diff: PersonDiff) => (
+                        <div key={diff.name}>
+                            <div className="text-sm font-medium text-gray-800">
+                                {diff.name}{' '}
+                                <span className="font-normal text-gray-500">
+                                    ({diff.type}, {diff.dutiesBefore} → {diff.dutiesAfter} duties)
+                                </span>
+                            </div>
+                            <ul className="ml-4 text-sm text-gray-600 list-disc list-inside">
+                                {diff.changes.map((change: DutyChange, index: number) => (
+                                    <li key={index}>
+                                        <span className="text-gray-800">{DUTY_CHANGE_LABELS[change.kind]}:</span> {describe(change)}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScheduleDiffPanel;
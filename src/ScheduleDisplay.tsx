@@ -1,25 +1,162 @@
 import React, { useState } from 'react';
-import { Schedule, ScheduleEntry } from './types';
+import { Lock, Unlock, X } from 'lucide-react';
+import {
+    AssignmentRef,
+    ExamDay,
+    Invigilator,
+    Person,
+    RankRule,
+    Room,
+    Schedule,
+    ScheduleEntry,
+    ScheduleLocks,
+    SlotRef,
+    Violation
+} from './types';
+import { getSessionLabel } from './utils/sessions';
+import { getRoomLocation } from './utils/rooms';
+import { formatDayLabel, formatDayTitle, formatWeekday } from './utils/calendar';
+import { FairnessScore, formatScore } from './utils/fairness';
+import {
+    ScheduleEditError,
+    addAssignment,
+    moveAssignment,
+    removeAssignment,
+    replaceAssignment,
+    swapAssignments
+} from './utils/scheduleEditing';
+import { compareBySeniority } from './utils/ranks';
+import { EMPTY_LOCKS, isAssignmentLocked, isEntryLocked, toggleAssignmentLock, toggleEntryLock } from './utils/locks';
 
 interface ScheduleDisplayProps {
     schedule: Schedule;
+    score?: FairnessScore;
+    violations?: Violation[]; // Highlighted on the people and rooms they concern
+    people?: Person[]; // Roster offered for drag-and-drop while editing
+    rankRules?: RankRule[]; // Decide who leads a room after an edit
+    onChange?: (schedule: Schedule) => void; // Editing is available when set
+    locks?: ScheduleLocks; // Places kept when regenerating
+    onLocksChange?: (locks: ScheduleLocks) => void;
 }
 
-const ScheduleDisplay: React.FC<ScheduleDisplayProps> = ({ schedule }) => {
+// What is being dragged: someone's place in the grid, or a person from the roster
+type DragSource =
+    | { kind: 'assignment'; ref: AssignmentRef }
+    | { kind: 'person'; person: Person };
+
+const ScheduleDisplay: React.FC<ScheduleDisplayProps> = ({
+    schedule,
+    score,
+    violations = [],
+    people = [],
+    rankRules = [],
+    onChange,
+    locks = EMPTY_LOCKS,
+    onLocksChange
+}) => {
     const [selectedDay, setSelectedDay] = useState<number>(1);
+    const [selectedSession, setSelectedSession] = useState<number>(1);
     const [showStats, setShowStats] = useState<boolean>(false);
+    const [editing, setEditing] = useState<boolean>(false);
+    const [dragged, setDragged] = useState<DragSource | null>(null);
 
-    const days: number[] = Array.from(new Set(schedule.entries.map((entry: ScheduleEntry) => entry.day))) as number[];
-    const dayNames: string[] = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+    const examDays: ExamDay[] = schedule.calendar;
+    const sessions: number[] = Array.from({ length: schedule.sessionsPerDay }, (_, i) => i + 1);
 
-    // Group entries by day and room
-    const getEntriesForDay = (day: number): ScheduleEntry[] => {
+    // Group entries by day, session and room
+    const getEntriesForSlot = (day: number, session: number): ScheduleEntry[] => {
         return schedule.entries
-            .filter((entry: ScheduleEntry) => entry.day === day)
+            .filter((entry: ScheduleEntry) => entry.day === day && entry.session === session)
             .sort((a: ScheduleEntry, b: ScheduleEntry) => a.room - b.room);
     };
 
-    const currentEntries: ScheduleEntry[] = getEntriesForDay(selectedDay);
+    // Fall back to the first session if the schedule was regenerated with fewer sessions
+    const currentSession: number = Math.min(selectedSession, schedule.sessionsPerDay);
+    const slotEntries: ScheduleEntry[] = getEntriesForSlot(selectedDay, currentSession);
+    // While editing, rooms nobody is in yet are shown too, so people can be dropped into them
+    const currentEntries: ScheduleEntry[] = editing
+        ? schedule.rooms
+            .filter((room: Room) => room.invigilators > 0 || slotEntries.some((e: ScheduleEntry) => e.room === room.id))
+            .map((room: Room) => slotEntries.find((e: ScheduleEntry) => e.room === room.id)
+                ?? { invigilators: [], day: selectedDay, session: currentSession, room: room.id })
+            .sort((a: ScheduleEntry, b: ScheduleEntry) => a.room - b.room)
+        : slotEntries;
+
+    // Whoever is most senior leads a room after an edit, as in a generated schedule
+    const seniority = compareBySeniority(
+        people.filter((p: Person) => p.type === 'faculty'),
+        people.filter((p: Person) => p.type === 'staff'),
+        rankRules
+    );
+
+    // Apply an edit, reporting edits that would leave the schedule malformed
+    const applyEdit = (edit: () => Schedule) => {
+        if (!onChange) return;
+        try {
+            onChange(edit());
+        } catch (error) {
+            if (!(error instanceof ScheduleEditError)) throw error;
+            alert(error.message);
+        }
+    };
+
+    const dropOnInvigilator = (target: AssignmentRef) => {
+        if (!dragged) return;
+        if (dragged.kind === 'assignment') {
+            applyEdit(() => swapAssignments(schedule, dragged.ref, target, seniority));
+        } else {
+            applyEdit(() => replaceAssignment(schedule, target, dragged.person, seniority));
+        }
+        setDragged(null);
+    };
+
+    const dropOnSlot = (target: SlotRef) => {
+        if (!dragged) return;
+        if (dragged.kind === 'assignment') {
+            applyEdit(() => moveAssignment(schedule, dragged.ref, target, seniority));
+        } else {
+            applyEdit(() => addAssignment(schedule, target, dragged.person, seniority));
+        }
+        setDragged(null);
+    };
+
+    // Dropping a placed person on a day or session tab moves them to the same room there
+    const dropOnTab = (day: number, session: number) => {
+        if (dragged?.kind !== 'assignment') return;
+        applyEdit(() => moveAssignment(schedule, dragged.ref, { day, session, room: dragged.ref.room }, seniority));
+        setDragged(null);
+    };
+
+    const allowDrop = (event: React.DragEvent) => {
+        if (editing && dragged) event.preventDefault();
+    };
+
+    const startDrag = (event: React.DragEvent, source: DragSource) => {
+        event.dataTransfer.setData('text/plain', source.kind === 'assignment' ? source.ref.name : source.person.name);
+        event.dataTransfer.effectAllowed = 'move';
+        setDragged(source);
+    };
+
+    // Violations located at a room in a slot, or at one person in it
+    const violationsAt = (entry: ScheduleEntry, name?: string): Violation[] =>
+        violations.filter((v: Violation) =>
+            v.day === entry.day &&
+            (v.session === undefined || v.session === entry.session) &&
+            (name === undefined
+                ? v.person === undefined && v.room === entry.room
+                : v.person === name && (v.room === undefined || v.room === entry.room))
+        );
+
+    const highlight = (found: Violation[]): string => {
+        if (found.some((v: Violation) => v.severity === 'error')) return 'ring-2 ring-red-400 bg-red-50';
+        if (found.length > 0) return 'ring-2 ring-amber-300 bg-amber-50';
+        return '';
+    };
+
+    const dutyCountOf = (name: string): number =>
+        [...schedule.facultyDuties, ...schedule.staffDuties].find((d: { name: string }) => d.name === name)?.count ?? 0;
+
+    const getRoom = (id: number) => schedule.rooms.find((room: Room) => room.id === id);
 
     // Calculate duty distribution stats
     const calculateStats = () => {
@@ -29,6 +166,16 @@ const ScheduleDisplay: React.FC<ScheduleDisplayProps> = ({ schedule }) => {
         const facultyAvg = facultyStats.reduce((sum: number, item: { count: number }) => sum + item.count, 0) / facultyStats.length;
         const staffAvg = staffStats.reduce((sum: number, item: { count: number }) => sum + item.count, 0) / staffStats.length;
 
+        // Duties and rooms in use on each exam day
+        const dayStats = examDays.map((examDay: ExamDay) => {
+            const entries = schedule.entries.filter((entry: ScheduleEntry) => entry.day === examDay.day);
+            return {
+                examDay,
+                rooms: entries.length,
+                duties: entries.reduce((sum: number, entry: ScheduleEntry) => sum + entry.invigilators.length, 0)
+            };
+        });
+
         return {
             facultyAvg: facultyAvg.toFixed(2),
             staffAvg: staffAvg.toFixed(2),
@@ -37,7 +184,8 @@ const ScheduleDisplay: React.FC<ScheduleDisplayProps> = ({ schedule }) => {
             staffMin: staffStats.length ? staffStats[staffStats.length - 1].count : 0,
             staffMax: staffStats.length ? staffStats[0].count : 0,
             facultyStats,
-            staffStats
+            staffStats,
+            dayStats
         };
     };
 
@@ -45,24 +193,92 @@ const ScheduleDisplay: React.FC<ScheduleDisplayProps> = ({ schedule }) => {
 
     return (
         <div className="p-4 max-w-6xl mx-auto">
-            <h1 className="text-2xl font-bold mb-4">Supervision Schedule</h1>
+            <div className="flex items-baseline mb-4">
+                <h1 className="text-2xl font-bold">Supervision Schedule</h1>
+                {onChange && (
+                    <button
+                        onClick={() => setEditing(!editing)}
+                        className={`ml-4 px-3 py-1 text-sm rounded-lg border ${editing
+                            ? "bg-blue-500 border-blue-500 text-white"
+                            : "border-gray-300 text-gray-600 hover:border-gray-400"
+                            }`}
+                    >
+                        {editing ? 'Done Editing' : 'Edit'}
+                    </button>
+                )}
+                <span className="flex-1" />
+                {score && (
+                    <span
+                        className="text-sm text-gray-600"
+                        title={`Duty variance ${score.dutyVariance.toFixed(2)}, spread ${score.dutySpread}, ${score.consecutiveDays} back-to-back days, ${score.errors} errors, ${score.warnings} warnings`}
+                    >
+                        Fairness score <span className="font-semibold">{formatScore(score)}</span> (lower is fairer)
+                    </span>
+                )}
+            </div>
 
             {/* Day selector tabs */}
             <div className="flex mb-4 overflow-x-auto">
-                {days.map((day: number, index: number) => (
+                {examDays.map((examDay: ExamDay) => (
                     <button
-                        key={day}
-                        onClick={() => setSelectedDay(day)}
-                        className={`px-4 py-2 border-b-2 ${selectedDay === day
+                        key={examDay.day}
+                        onClick={() => setSelectedDay(examDay.day)}
+                        onDragOver={allowDrop}
+                        onDrop={() => dropOnTab(examDay.day, currentSession)}
+                        className={`px-4 py-2 border-b-2 whitespace-nowrap ${selectedDay === examDay.day
                             ? "border-blue-500 text-blue-600 font-semibold"
                             : "border-transparent hover:border-gray-300"
                             }`}
                     >
-                        {dayNames[index % dayNames.length]}
+                        {formatDayLabel(examDay)}
                     </button>
                 ))}
             </div>
 
+            {/* Session sub-tabs for days with more than one sitting */}
+            {sessions.length > 1 && (
+                <div className="flex gap-2 mb-4">
+                    {sessions.map((session: number) => (
+                        <button
+                            key={session}
+                            onClick={() => setSelectedSession(session)}
+                            onDragOver={allowDrop}
+                            onDrop={() => dropOnTab(selectedDay, session)}
+                            className={`px-3 py-1 text-sm rounded-full border ${currentSession === session
+                                ? "bg-blue-500 border-blue-500 text-white"
+                                : "border-gray-300 text-gray-600 hover:border-gray-400"
+                                }`}
+                        >
+                            {getSessionLabel(session)}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Roster palette: drag a name onto someone to replace them, or onto a room to add them */}
+            {editing && (
+                <div className="mb-4 p-3 bg-gray-50 rounded-lg border border-gray-200">
+                    <div className="text-xs text-gray-500 mb-2">
+                        Drag people between rooms to move them, onto each other to swap, or onto a day or session tab to move them there.
+                        Drag a name from this list onto someone to replace them, or onto a room to add them.
+                        Lock a room or a person to keep them in place when regenerating.
+                    </div>
+                    <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+                        {people.filter((person: Person) => !person.exempt).map((person: Person) => (
+                            <span
+                                key={person.name}
+                                draggable
+                                onDragStart={(event) => startDrag(event, { kind: 'person', person })}
+                                onDragEnd={() => setDragged(null)}
+                                className={`px-2 py-1 text-xs rounded-full cursor-move ${person.type === 'faculty' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'}`}
+                            >
+                                {person.name} ({dutyCountOf(person.name)})
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Schedule grid */}
             <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
                 <table className="min-w-full divide-y divide-gray-200">
@@ -77,41 +293,104 @@ const ScheduleDisplay: React.FC<ScheduleDisplayProps> = ({ schedule }) => {
                         </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
-                        {currentEntries.map((entry: ScheduleEntry) => (
-                            <tr key={`${entry.day}-${entry.room}`} className="hover:bg-gray-50">
-                                <td className="px-6 py-4 whitespace-nowrap text-gray-900 font-medium">
-                                    Room {entry.room}
-                                </td>
-                                <td className="px-6 py-4">
-                                    <div className="flex flex-col sm:flex-row sm:gap-6">
-                                        <div className="flex items-center mb-2 sm:mb-0">
-                                            <div className={`h-8 w-8 rounded-full ${entry.faculty.type === 'faculty' ? 'bg-blue-500' : 'bg-green-400'} flex items-center justify-center text-white font-semibold mr-3`}>
-                                                {entry.faculty.name.charAt(0)}
-                                            </div>
-                                            <div>
-                                                <div className="font-medium">{entry.faculty.name}</div>
-                                                <div className="text-xs text-gray-500">{entry.faculty.type}</div>
-                                            </div>
+                        {currentEntries.map((entry: ScheduleEntry) => {
+                            const room = getRoom(entry.room);
+                            const location = room ? getRoomLocation(room) : '';
+                            const roomViolations = violationsAt(entry);
+                            const roomLocked = isEntryLocked(locks, entry);
+
+                            return (
+                                <tr key={`${entry.day}-${entry.session}-${entry.room}`} className="hover:bg-gray-50">
+                                    <td
+                                        className={`px-6 py-4 whitespace-nowrap text-gray-900 font-medium ${highlight(roomViolations)}`}
+                                        title={roomViolations.map((v: Violation) => v.message).join('\n') || undefined}
+                                    >
+                                        <div className="flex items-center gap-2">
+                                            {room?.name ?? `Room ${entry.room}`}
+                                            {(editing || roomLocked) && (
+                                                <button
+                                                    onClick={() => onLocksChange?.(toggleEntryLock(locks, entry))}
+                                                    disabled={!editing || !onLocksChange}
+                                                    className={roomLocked ? 'text-amber-600' : 'text-gray-300 hover:text-gray-500'}
+                                                    title={roomLocked ? 'Unlock this room' : 'Lock this room'}
+                                                >
+                                                    {roomLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                                                </button>
+                                            )}
                                         </div>
+                                        {location && (
+                                            <div className="text-xs font-normal text-gray-500">{location}</div>
+                                        )}
+                                    </td>
+                                    <td
+                                        className="px-6 py-4"
+                                        onDragOver={allowDrop}
+                                        onDrop={() => dropOnSlot({ day: entry.day, session: entry.session, room: entry.room })}
+                                    >
+                                        <div className="flex flex-col sm:flex-row sm:flex-wrap sm:gap-6">
+                                            {entry.invigilators.map((invigilator: Invigilator) => {
+                                                const ref: AssignmentRef = { day: entry.day, session: entry.session, room: entry.room, name: invigilator.person.name };
+                                                const personViolations = violationsAt(entry, invigilator.person.name);
+                                                const personLocked = isAssignmentLocked(locks, ref);
 
-                                        <div className="flex items-center">
-                                            <div className={`h-8 w-8 rounded-full ${entry.staff.type === 'staff' ? 'bg-green-500' : 'bg-blue-500'} flex items-center justify-center text-white font-semibold mr-3`}>
-                                                {entry.staff.name.charAt(0)}
-                                            </div>
-                                            <div>
-                                                <div className="font-medium">{entry.staff.name}</div>
-                                                <div className="text-xs text-gray-500">{entry.staff.type}</div>
-                                            </div>
+                                                return (
+                                                    <div
+                                                        key={invigilator.person.name}
+                                                        draggable={editing}
+                                                        onDragStart={(event) => startDrag(event, { kind: 'assignment', ref })}
+                                                        onDragEnd={() => setDragged(null)}
+                                                        onDragOver={allowDrop}
+                                                        onDrop={(event) => {
+                                                            event.stopPropagation();
+                                                            dropOnInvigilator(ref);
+                                                        }}
+                                                        title={personViolations.map((v: Violation) => v.message).join('\n') || undefined}
+                                                        className={`flex items-center mb-2 sm:mb-0 rounded-lg ${editing ? 'cursor-move p-1' : ''} ${highlight(personViolations)}`}
+                                                    >
+                                                        <div className={`h-8 w-8 rounded-full ${invigilator.person.type === 'faculty' ? 'bg-blue-500' : 'bg-green-500'} flex items-center justify-center text-white font-semibold mr-3`}>
+                                                            {invigilator.person.name.charAt(0)}
+                                                        </div>
+                                                        <div>
+                                                            <div className="font-medium">{invigilator.person.name}</div>
+                                                            <div className="text-xs text-gray-500">
+                                                                {invigilator.person.type}{invigilator.role === 'lead' ? ' · lead' : ''}
+                                                            </div>
+                                                        </div>
+                                                        {(editing || personLocked) && (
+                                                            <button
+                                                                onClick={() => onLocksChange?.(toggleAssignmentLock(locks, ref))}
+                                                                disabled={!editing || !onLocksChange || roomLocked}
+                                                                className={`ml-2 ${personLocked ? 'text-amber-600' : 'text-gray-300 hover:text-gray-500'}`}
+                                                                title={roomLocked ? 'Locked with the room' : personLocked ? 'Unlock' : 'Lock in this room'}
+                                                            >
+                                                                {personLocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                                                            </button>
+                                                        )}
+                                                        {editing && (
+                                                            <button
+                                                                onClick={() => applyEdit(() => removeAssignment(schedule, ref))}
+                                                                className="ml-2 text-gray-400 hover:text-red-600"
+                                                                title="Remove from this room"
+                                                            >
+                                                                <X className="w-4 h-4" />
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                );
+                                            })}
+                                            {editing && entry.invigilators.length === 0 && (
+                                                <span className="text-sm text-gray-400">Drop someone here</span>
+                                            )}
                                         </div>
-                                    </div>
-                                </td>
-                            </tr>
-                        ))}
+                                    </td>
+                                </tr>
+                            );
+                        })}
 
                         {currentEntries.length === 0 && (
                             <tr>
                                 <td colSpan={2} className="px-6 py-4 text-center text-gray-500">
-                                    No schedule entries for this day
+                                    No schedule entries for this {sessions.length > 1 ? "session" : "day"}
                                 </td>
                             </tr>
                         )}
@@ -196,6 +475,23 @@ const ScheduleDisplay: React.FC<ScheduleDisplayProps> = ({ schedule }) => {
                             </div>
                         </div>
                     </div>
+
+                    {/* Per-day summary */}
+                    <div className="p-4 border-t border-gray-200">
+                        <h3 className="font-medium text-gray-700 mb-2">Duties per Day</h3>
+                        <table className="min-w-full text-sm">
+                            <tbody>
+                                {stats.dayStats.map(({ examDay, rooms, duties }) => (
+                                    <tr key={examDay.day}>
+                                        <td className="py-1 pr-4 font-medium">{formatDayTitle(examDay)}</td>
+                                        <td className="py-1 pr-4 text-gray-500">{formatWeekday(examDay)}</td>
+                                        <td className="py-1 pr-4">{rooms} rooms</td>
+                                        <td className="py-1">{duties} duties</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
                 </div>
             )}
 
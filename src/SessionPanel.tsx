@@ -0,0 +1,105 @@
+import React from 'react';
+import { Copy, Download, FilePlus, Pencil, Trash2, Upload } from 'lucide-react';
+import { SavedSession } from './utils/workspace';
+import { PROJECT_FILE_EXTENSION } from './utils/projectFile';
+
+interface SessionPanelProps {
+    sessions: SavedSession[]; // Most recently saved first
+    current: SavedSession;
+    saveError: string | null;
+    onOpen: (id: string) => void;
+    onNew: (name: string) => void;
+    onRename: (name: string) => void;
+    onDuplicate: (name: string) => void;
+    onDelete: () => void;
+    onExport: () => void;
+    onImport: (file: File) => void; // Opens as a new session
+}
+
+const SessionPanel: React.FC<SessionPanelProps> = ({ sessions, current, saveError, onOpen, onNew, onRename, onDuplicate, onDelete, onExport, onImport }) => {
+    // The open session comes first, with its latest name even before the list is reloaded
+    const options = [current, ...sessions.filter((session: SavedSession) => session.id !== current.id)];
+
+    const askName = (message: string, suggestion: string, then: (name: string) => void) => {
+        const name = prompt(message, suggestion)?.trim();
+        if (name) then(name);
+    };
+
+    const buttonClass = "flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:border-gray-400";
+
+    return (
+        <div className="bg-gray-50 p-4 rounded-xl border border-gray-200 mb-8">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">Session</span>
+                <select
+                    value={current.id}
+                    onChange={(e) => onOpen(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {options.map((session: SavedSession) => (
+                        <option key={session.id} value={session.id}>{session.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => askName('Name for the new session', '', onNew)}
+                    className={buttonClass}
+                    title="Start an empty session"
+                >
+                    <FilePlus className="w-4 h-4" />
+                    New
+                </button>
+                <button
+                    onClick={() => askName('Rename session', current.name, onRename)}
+                    className={buttonClass}
+                >
+                    <Pencil className="w-4 h-4" />
+                    Rename
+                </button>
+                <button
+                    onClick={() => askName('Name for the copy', `${current.name} (copy)`, onDuplicate)}
+                    className={buttonClass}
+                    title="Copy this session and open the copy"
+                >
+                    <Copy className="w-4 h-4" />
+                    Duplicate
+                </button>
+                <button
+                    onClick={() => {
+                        if (confirm(`Delete "${current.name}"? This cannot be undone.`)) onDelete();
+                    }}
+                    className="flex items-center gap-1 px-3 py-2 text-sm border border-red-200 text-red-600 rounded-lg hover:border-red-400"
+                >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                </button>
+                <button
+                    onClick={onExport}
+                    className={buttonClass}
+                    title="Save the whole session as a project file"
+                >
+                    <Download className="w-4 h-4" />
+                    Export Project
+                </button>
+                <label className={`${buttonClass} cursor-pointer`} title="Open a project file as a new session">
+                    <Upload className="w-4 h-4" />
+                    Import Project
+                    <input
+                        type="file"
+                        className="hidden"
+                        accept={`${PROJECT_FILE_EXTENSION},.json`}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) onImport(file);
+                        }}
+                    />
+                </label>
+            </div>
+            <p className={`mt-2 text-xs ${saveError ? 'text-red-600' : 'text-gray-500'}`}>
+                {saveError ?? 'Changes are saved in this browser automatically.'}
+            </p>
+        </div>
+    );
+};
+
+export default SessionPanel;
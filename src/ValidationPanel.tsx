@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Violation } from './types';
+import { VALIDATION_RULES, ValidationRuleId } from './utils/scheduleValidator';
+
+interface ValidationPanelProps {
+    violations: Violation[];
+}
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ violations }) => {
+    const [expanded, setExpanded] = useState<boolean>(true);
+
+    const errors = violations.filter((v: Violation) => v.severity === 'error');
+    const warnings = violations.filter((v: Violation) => v.severity === 'warning');
+
+    // Group by rule so a repeated problem reads as one heading with its occurrences
+    const byRule = new Map<string, Violation[]>();
+    [...errors, ...warnings].forEach((v: Violation) => {
+        if (!byRule.has(v.ruleId)) byRule.set(v.ruleId, []);
+        byRule.get(v.ruleId)!.push(v);
+    });
+
+    if (violations.length === 0) {
+        return (
+            <div className="bg-green-50 p-4 rounded-xl border border-green-200 mb-6 text-sm text-green-800">
+                Schedule checked: no rule violations found.
+            </div>
+        );
+    }
+
+    return (
+        <div className={`p-4 rounded-xl border mb-6 ${errors.length > 0 ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center justify-between text-left"
+            >
+                <h3 className="font-semibold text-gray-800">Schedule Validation</h3>
+                <span className="text-sm text-gray-600">
+                    {errors.length} errors, {warnings.length} warnings {expanded ? "▲" : "▼"}
+                </span>
+            </button>
+
+            {expanded && (
+                <div className="mt-3 space-y-3 max-h-80 overflow-y-auto">
+                    {Array.from(byRule.entries()).map(([ruleId, items]) => (
+                        <div key={ruleId}>
+                            <div className="text-sm font-medium text-gray-800">
+                                <span className={`inline-block w-16 text-xs uppercase ${items[0].severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+                                    {items[0].severity}
+                                </span>
+                                {VALIDATION_RULES[ruleId as ValidationRuleId] ?? ruleId} ({items.length})
+                            </div>
+                            <ul className="ml-16 text-sm text-gray-600 list-disc list-inside">
+                                {items.map((v: Violation, index: number) => (
+                                    <li key={index}>{v.message}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ValidationPanel;
@@ -1,13 +1,66 @@
 export interface Person {
   name: string;
   type: 'faculty' | 'staff';
+  rank?: string; // Designation from the roster, e.g. "Professor" or "Lab Staff"
+  maxDuties?: number; // Personal cap from the roster (HoDs, wardens, ...)
+  minDuties?: number; // Personal floor from the roster
+  exempt?: boolean; // Never assigned any duty (medical leave, ...)
+}
+
+// Seniority level (1 = most senior) and duty cap for a designation
+export interface RankRule {
+  rank: string;
+  level: number;
+  maxDuties: number | null; // null leaves the person on the fair share
+}
+
+// An exam day and, when a start date is configured, the calendar date it falls on
+export interface ExamDay {
+  day: number;
+  date?: string; // YYYY-MM-DD
+}
+
+export interface Room {
+  id: number;
+  name: string;
+  building?: string;
+  floor?: string;
+  capacity?: number;
+  invigilators: number; // Number of people required in the room each session
+  requiresFaculty: boolean; // At least one invigilator must be faculty
+}
+
+// The lead invigilator is the most senior person in the room
+export type InvigilatorRole = 'lead' | 'assistant';
+
+export interface Invigilator {
+  person: Person;
+  role: InvigilatorRole;
 }
 
 export interface ScheduleEntry {
-  faculty: Person;
-  staff: Person;
-  room: number;
+  invigilators: Invigilator[]; // Lead first, then assistants in seniority order
+  room: number; // Room id
+  day: number;
+  session: number; // 1-based sitting within the day (forenoon, afternoon, ...)
+}
+
+// A room in a slot
+export interface SlotRef {
   day: number;
+  session: number;
+  room: number; // Room id
+}
+
+// One person's place in the schedule
+export interface AssignmentRef extends SlotRef {
+  name: string;
+}
+
+// Places kept as they are when the schedule is regenerated
+export interface ScheduleLocks {
+  entries: SlotRef[]; // Whole rooms in a slot
+  assignments: AssignmentRef[]; // Single people in a room
 }
 
 export interface DutyCount {
@@ -19,9 +72,51 @@ export interface Schedule {
   entries: ScheduleEntry[];
   facultyDuties: DutyCount[];
   staffDuties: DutyCount[];
+  seed: number; // PRNG seed that reproduces this schedule
+  days: number;
+  calendar: ExamDay[];
+  sessionsPerDay: number;
+  oneSessionPerDay: boolean;
+  rooms: Room[];
 }
 
 export interface FacultyConstraint {
   facultyName: string;
   day: number;
-}
\ No newline at end of file
+  note?: string; // Reason given, e.g. from an imported constraints sheet
+}
+export interface UnavailabilityConstraint {
+  personName: string;
+  personType: 'faculty' | 'staff';
+  fromDay: number;
+  toDay: number;
+  note?: string;
+}
+
+// Clock times of a session, HH:MM in 24-hour time
+export interface SessionTime {
+  start: string;
+  end: string;
+}
+
+// Institute details for printed rosters and duty letters
+export interface DocumentSettings {
+  institute: string;
+  subtitle: string; // Department or address line under the institute name
+  examName: string; // e.g. "Mid-Semester Examination, Autumn 2026"
+  signatoryName: string;
+  signatoryTitle: string; // e.g. "Controller of Examinations"
+}
+
+export type ViolationSeverity = 'error' | 'warning';
+
+// A rule broken by a schedule, located as precisely as the rule allows
+export interface Violation {
+  ruleId: string;
+  severity: ViolationSeverity;
+  message: string;
+  day?: number;
+  session?: number;
+  room?: number; // Room id
+  person?: string;
+}
@@ -0,0 +1,104 @@
+import { Person } from '../types';
+import { GenerateOptions, GenerationProgress } from './scheduleGenerator';
+import { ScheduleSolverError, SolverFailureReason } from './constraintSolver';
+import { SchedulingEngine } from './engines';
+import { ScoredSchedule } from './fairness';
+import { ValidationInput } from './scheduleValidator';
+
+// Options that can be posted to the worker (functions cannot cross to it)
+export type WorkerGenerateOptions = Omit<GenerateOptions, 'random' | 'onProgress'>;
+
+export interface GenerationRequest {
+  engine: SchedulingEngine;
+  faculty: Person[];
+  staff: Person[];
+  options: WorkerGenerateOptions;
+  candidates: number; // Schedules to generate; the fairest few are returned
+  scoring: ValidationInput; // What the candidates are scored against
+}
+
+// Messages the worker posts back while a request runs
+export type GenerationMessage =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'done'; candidates: ScoredSchedule[] }
+  | { type: 'solver-error'; reason: SolverFailureReason; details: string[] }
+  | { type: 'error'; message: string };
+
+// Rejects a job's result when it is cancelled before finishing
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export interface GenerationJob {
+  result: Promise<ScoredSchedule[]>; // Best first
+  cancel: () => void;
+}
+
+// Generate a schedule in a Web Worker so the page stays responsive; each job gets its own
+// worker, and cancelling terminates it outright
+export function startGeneration(
+  request: GenerationRequest,
+  onProgress: (progress: GenerationProgress) => void
+): GenerationJob {
+  const worker = new Worker(new URL('./generationWorker.ts', import.meta.url), { type: 'module' });
+  let cancel = () => {};
+
+  const result = new Promise<ScoredSchedule[]>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<GenerationMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.candidates);
+      } else if (message.type === 'solver-error') {
+        reject(new ScheduleSolverError(message.reason, message.details));
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+    cancel = () => {
+      worker.terminate();
+      reject(new GenerationCancelledError());
+    };
+  });
+
+  worker.postMessage(request);
+  return { result, cancel: () => cancel() };
+}
+
+// One line describing a progress report, for display while generating
+export function describeProgress(progress: GenerationProgress): string {
+  const candidate = progress.candidates && progress.candidates > 1
+    ? `Candidate ${progress.candidate} of ${progress.candidates}: `
+    : '';
+  return candidate + describePhase(progress);
+}
+
+function describePhase(progress: GenerationProgress): string {
+  const swaps = progress.swaps ? ` (${progress.swaps} swaps so far)` : '';
+  switch (progress.phase) {
+    case 'fixed-days':
+      return 'Placing faculty on their fixed days';
+    case 'assigning':
+      return `Filling day ${progress.day} of ${progress.days}${swaps}`;
+    case 'balancing':
+      return `Balancing duties${swaps}`;
+    case 'verifying':
+      return `Checking staff targets${swaps}`;
+    case 'searching':
+      return progress.nodes
+        ? `Searching: ${progress.nodes} partial schedules tried${progress.day ? `, reached day ${progress.day} of ${progress.days}` : ''}`
+        : 'Searching';
+  }
+}
@@ -0,0 +1,70 @@
+import { ExamDay } from '../types';
+
+export interface ExamCalendarSettings {
+  startDate: string; // YYYY-MM-DD, empty for generic "Day N" labels
+  holidays: string[]; // YYYY-MM-DD dates on which no exam is held
+  skipSundays: boolean;
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Parse YYYY-MM-DD as a local calendar date (Date's own parser would treat it as UTC)
+export function parseDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Assign a calendar date to each exam day, skipping Sundays and holidays
+export function buildExamDays(settings: ExamCalendarSettings, days: number): ExamDay[] {
+  const start = parseDate(settings.startDate);
+  if (!start) {
+    return Array.from({ length: days }, (_, i) => ({ day: i + 1 }));
+  }
+
+  const holidays = new Set(settings.holidays);
+  const examDays: ExamDay[] = [];
+  const current = new Date(start);
+
+  while (examDays.length < days) {
+    const date = toDateString(current);
+    if (!(settings.skipSundays && current.getDay() === 0) && !holidays.has(date)) {
+      examDays.push({ day: examDays.length + 1, date });
+    }
+    current.setDate(current.getDate() + 1);
+  }
+
+  return examDays;
+}
+
+export function getExamDay(calendar: ExamDay[], day: number): ExamDay {
+  return calendar.find(d => d.day === day) ?? { day };
+}
+
+// "15 Oct 2026", or "Day 3" when the schedule has no dates
+export function formatDayTitle(examDay: ExamDay): string {
+  const date = examDay.date ? parseDate(examDay.date) : null;
+  if (!date) return `Day ${examDay.day}`;
+  return `${date.getDate()} ${MONTH_NAMES[date.getMonth()]} ${date.getFullYear()}`;
+}
+
+// "Wednesday", or empty when the schedule has no dates
+export function formatWeekday(examDay: ExamDay): string {
+  const date = examDay.date ? parseDate(examDay.date) : null;
+  return date ? WEEKDAY_NAMES[date.getDay()] : '';
+}
+
+// "Wed, 15 Oct", or "Day 3" when the schedule has no dates
+export function formatDayLabel(examDay: ExamDay): string {
+  const date = examDay.date ? parseDate(examDay.date) : null;
+  if (!date) return `Day ${examDay.day}`;
+  return `${WEEKDAY_NAMES[date.getDay()].slice(0, 3)}, ${date.getDate()} ${MONTH_NAMES[date.getMonth()]}`;
+}
@@ -0,0 +1,188 @@
+import { strToU8, zipSync } from 'fflate';
+import { Person, Schedule, SessionTime } from '../types';
+import { getSessionLabel, getSessionTime } from './sessions';
+import { getExamDay } from './calendar';
+
+export interface CalendarOptions {
+  sessionTimes: SessionTime[];
+  examName: string; // Shown in each event, e.g. "End-Semester Examination, Autumn 2026"
+}
+
+// Thrown when events cannot be placed, e.g. the exam days have no dates
+export class CalendarExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarExportError';
+  }
+}
+
+const PRODUCT_ID = '-//IIIT Raichur//Exam Duty Scheduler//EN';
+const UID_DOMAIN = 'exam-duty.iiitr';
+const REMINDER_MINUTES = 60;
+const MAX_LINE_BYTES = 75; // Longer content lines are folded, as RFC 5545 requires
+
+// Session times are the institute's local time. India keeps one offset all year, so the
+// zone needs a single STANDARD rule; naming it lets calendars in other zones show the right hour.
+const TIME_ZONE = 'Asia/Kolkata';
+const TIME_ZONE_LINES = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIME_ZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0530',
+  'TZOFFSETTO:+0530',
+  'TZNAME:IST',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+];
+
+// Helper function to escape text for a property value
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Helper function to fold a content line into 75-byte pieces, continuation lines starting
+// with a space; multi-byte characters are never split
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const pieces: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = pieces.length === 0 ? MAX_LINE_BYTES : MAX_LINE_BYTES - 1;
+    if (bytes + size > limit) {
+      pieces.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  pieces.push(current);
+  return pieces.join('\r\n ');
+}
+
+// Helper function to write a local date and time (YYYY-MM-DD, HH:MM) as 20261102T093000
+function formatLocalDateTime(date: string, time: string): string {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+
+// Helper function to turn a name into a safe file or identifier part
+function slugify(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'person';
+}
+
+// Everyone with at least one duty, faculty first and then staff, each by name
+export function listDutyHolders(schedule: Schedule): Person[] {
+  const people = new Map<string, Person>();
+  schedule.entries.forEach(entry => {
+    entry.invigilators.forEach(({ person }) => people.set(`${person.type}:${person.name}`, person));
+  });
+  return [...people.values()].sort((a, b) =>
+    Number(a.type === 'staff') - Number(b.type === 'staff') || a.name.localeCompare(b.name)
+  );
+}
+
+// A calendar with one event per duty of the person. Event ids are made from the person, day
+// and session, so importing an updated file moves a duty to its new room instead of adding
+// a second event.
+export function buildPersonCalendar(schedule: Schedule, person: Person, options: CalendarOptions): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const exam = options.examName.trim();
+  const isPerson = (other: Person) => other.type === person.type && other.name === person.name;
+  const duties = schedule.entries
+    .filter(entry => entry.invigilators.some(i => isPerson(i.person)))
+    .sort((a, b) => a.day - b.day || a.session - b.session);
+
+  const events = duties.flatMap(entry => {
+    const date = getExamDay(schedule.calendar, entry.day).date;
+    if (!date) {
+      throw new CalendarExportError('Set the exam start date first: calendar events need the date of each exam day');
+    }
+    const time = getSessionTime(options.sessionTimes, entry.session);
+    const label = getSessionLabel(entry.session);
+    if (time.end <= time.start) {
+      throw new CalendarExportError(`The ${label} session ends (${time.end}) before it starts (${time.start})`);
+    }
+
+    const room = schedule.rooms.find(r => r.id === entry.room);
+    const roomName = room?.name ?? `Room ${entry.room}`;
+    const location = [roomName, room?.building, room?.floor && `Floor ${room.floor}`].filter(Boolean).join(', ');
+    const role = entry.invigilators.find(i => isPerson(i.person))?.role;
+    const others = entry.invigilators.filter(i => !isPerson(i.person)).map(i => i.person.name);
+    const description = [
+      exam,
+      `${label} session, ${time.start}-${time.end}`,
+      `Room: ${location}`,
+      `Role: ${role === 'lead' ? 'Lead invigilator' : 'Assistant invigilator'}`,
+      `Co-invigilators: ${others.length > 0 ? others.join(', ') : 'none'}`
+    ].filter(Boolean).join('\n');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${slugify(`${person.type}-${person.name}`)}-day${entry.day}-session${entry.session}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${TIME_ZONE}:${formatLocalDateTime(date, time.start)}`,
+      `DTEND;TZID=${TIME_ZONE}:${formatLocalDateTime(date, time.end)}`,
+      `SUMMARY:${escapeText(`Invigilation duty: ${roomName}${exam ? ` (${exam})` : ''}`)}`,
+      `LOCATION:${escapeText(location)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(`Invigilation duty in ${roomName}`)}`,
+      `TRIGGER:-PT${REMINDER_MINUTES}M`,
+      'END:VALARM',
+      'END:VEVENT'
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`Invigilation duties - ${person.name}`)}`,
+    `X-WR-TIMEZONE:${TIME_ZONE}`,
+    ...TIME_ZONE_LINES,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function calendarFileName(person: Person): string {
+  return `${slugify(person.name)}.ics`;
+}
+
+// Helper function to save a file from the browser
+function saveFile(data: BlobPart, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadPersonCalendar(schedule: Schedule, person: Person, options: CalendarOptions) {
+  saveFile(buildPersonCalendar(schedule, person, options), 'text/calendar', calendarFileName(person));
+}
+
+// One .ics file per person with duties in a zip; a faculty and a staff member with the
+// same name get numbered files
+export function buildCalendarZip(schedule: Schedule, options: CalendarOptions): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+  listDutyHolders(schedule).forEach(person => {
+    let fileName = calendarFileName(person);
+    for (let copy = 2; fileName in files; copy++) {
+      fileName = calendarFileName(person).replace(/\.ics$/, `-${copy}.ics`);
+    }
+    files[fileName] = strToU8(buildPersonCalendar(schedule, person, options));
+  });
+  return zipSync(files);
+}
+
+export function downloadAllCalendars(schedule: Schedule, options: CalendarOptions, fileName = 'invigilation-calendars.zip') {
+  saveFile(buildCalendarZip(schedule, options), 'application/zip', fileName);
+}
@@ -0,0 +1,185 @@
+import { ExamDay, FacultyConstraint, Person, UnavailabilityConstraint } from '../types';
+import { SheetIssue, normaliseHeader } from './spreadsheet';
+import { normalisePersonName } from './rosterImport';
+
+// Optional sheet in the uploaded workbook listing fixed days and leave
+export const CONSTRAINTS_SHEET_NAME = 'Constraints';
+
+// Columns of the sheet, as written on export; each also accepts the other headers listed
+const COLUMNS = {
+  name: ['Name', 'Person', 'Faculty', 'Staff'],
+  type: ['Type', 'Constraint', 'Kind'],
+  day: ['Day', 'Exam Day', 'From Day'],
+  toDay: ['To Day', 'Until Day'],
+  date: ['Date', 'From Date'],
+  toDate: ['To Date', 'Until Date', 'Until'],
+  note: ['Note', 'Notes', 'Remarks', 'Reason']
+};
+
+const FIXED_VALUES = ['fixed', 'fix', 'fixed day', 'duty', 'assign'];
+const UNAVAILABLE_VALUES = ['unavailable', 'leave', 'blocked', 'not available', 'na', 'n/a'];
+
+export interface ConstraintImportInput {
+  faculty: Person[];
+  staff: Person[];
+  calendar: ExamDay[]; // Dates are matched against exam days
+  constraints: FacultyConstraint[]; // Already in the list; imported rows are checked against them
+  unavailability: UnavailabilityConstraint[];
+}
+
+export interface ConstraintImport {
+  constraints: FacultyConstraint[]; // Only the new ones
+  unavailability: UnavailabilityConstraint[];
+  issues: SheetIssue[];
+}
+
+// Helper function to read a date as YYYY-MM-DD; day-first when written with slashes, dots
+// or dashes (20/10/2026), as Indian offices write them
+function parseSheetDate(value: string): string | null {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  const dayFirst = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(value);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : dayFirst ? [dayFirst[3], dayFirst[2], dayFirst[1]] : null;
+  return parts ? parts.map((part, index) => index === 0 ? part : part.padStart(2, '0')).join('-') : null;
+}
+
+// Read the constraint rows below the header row (the first near the top with a Name column).
+// Each row is checked the way the form checks a constraint typed in by hand: the person must
+// be loaded, fixed days are for faculty, days must be exam days, and nothing may repeat or
+// clash with a constraint already listed or read from an earlier row.
+export function parseConstraintsSheet(rows: string[][], input: ConstraintImportInput): ConstraintImport {
+  const { faculty, staff, calendar } = input;
+  const days = calendar.length;
+  const constraints: FacultyConstraint[] = [];
+  const unavailability: UnavailabilityConstraint[] = [];
+  const issues: SheetIssue[] = [];
+  const allConstraints = () => [...input.constraints, ...constraints];
+  const allUnavailability = () => [...input.unavailability, ...unavailability];
+
+  const headerRow = Math.max(0, rows.slice(0, 10).findIndex(row =>
+    row.some(cell => COLUMNS.name.some(h => normaliseHeader(h) === normaliseHeader(cell)))
+  ));
+  const headers = (rows[headerRow] ?? []).map(normaliseHeader);
+  const columnOf = (names: string[]) => headers.findIndex(h => names.some(name => normaliseHeader(name) === h));
+  const columns = Object.fromEntries(
+    Object.entries(COLUMNS).map(([key, names]) => [key, columnOf(names)])
+  ) as Record<keyof typeof COLUMNS, number>;
+
+  const byName = new Map<string, Person>();
+  [...staff, ...faculty].forEach(person => byName.set(person.name.toLowerCase(), person));
+
+  rows.slice(headerRow + 1).forEach((cells, offset) => {
+    if (!cells.some(cell => cell.trim())) return;
+    const row = headerRow + offset + 2;
+    const cell = (key: keyof typeof COLUMNS) => columns[key] === -1 ? '' : (cells[columns[key]] ?? '').trim();
+    const skip = (message: string) => issues.push({ row, message: `${message}, skipped` });
+
+    const name = normalisePersonName(cell('name'));
+    if (!name) return skip('No name');
+    const person = byName.get(name.toLowerCase());
+    if (!person) return skip(`${name} is not in the faculty or staff list`);
+
+    const type = cell('type').toLowerCase();
+    const fixed = FIXED_VALUES.includes(type);
+    if (!fixed && !UNAVAILABLE_VALUES.includes(type)) {
+      return skip(`Type "${cell('type')}" for ${person.name} is neither "fixed" nor "unavailable"`);
+    }
+
+    // Exam days from the Day columns, or else from the Date columns
+    const toExamDay = (dayText: string, dateText: string): number | string => {
+      if (dayText) {
+        const day = Number(dayText);
+        return Number.isInteger(day) && day >= 1 && day <= days ? day : `day "${dayText}" is not between 1 and ${days}`;
+      }
+      if (!dateText) return 'no day or date';
+      const date = parseSheetDate(dateText);
+      if (!date) return `date "${dateText}" is not a date (use YYYY-MM-DD or DD/MM/YYYY)`;
+      const examDay = calendar.find(d => d.date === date);
+      if (examDay) return examDay.day;
+      return calendar.some(d => d.date) ? `${date} is not an exam day` : `${date} cannot be placed without an exam start date`;
+    };
+    const from = toExamDay(cell('day'), cell('date'));
+    const to = cell('toDay') || cell('toDate') ? toExamDay(cell('toDay'), cell('toDate')) : from;
+    if (typeof from === 'string') return skip(`${person.name}: ${from}`);
+    if (typeof to === 'string') return skip(`${person.name}: ${to}`);
+    if (to < from) return skip(`${person.name}: the leave ends before it starts`);
+
+    const note = cell('note');
+    const onLeave = (day: number) => allUnavailability().some(u =>
+      u.personType === person.type && u.personName === person.name && day >= u.fromDay && day <= u.toDay
+    );
+
+    if (fixed) {
+      if (person.type !== 'faculty') return skip(`${person.name} is staff; only faculty can be fixed to a day`);
+      if (to !== from) return skip(`${person.name}: a fixed day is a single day`);
+      if (allConstraints().some(c => c.facultyName === person.name && c.day === from)) {
+        return skip(`${person.name} is already fixed to day ${from}`);
+      }
+      if (onLeave(from)) return skip(`${person.name} is unavailable on day ${from}`);
+      constraints.push({ facultyName: person.name, day: from, ...(note ? { note } : {}) });
+      return;
+    }
+
+    if (allUnavailability().some(u =>
+      u.personType === person.type && u.personName === person.name && u.fromDay <= to && from <= u.toDay
+    )) {
+      return skip(`${person.name} is already unavailable on some of days ${from}–${to}`);
+    }
+    if (person.type === 'faculty' && allConstraints().some(c => c.facultyName === person.name && c.day >= from && c.day <= to)) {
+      return skip(`${person.name} is fixed to one of days ${from}–${to}`);
+    }
+    unavailability.push({
+      personName: person.name,
+      personType: person.type,
+      fromDay: from,
+      toDay: to,
+      ...(note ? { note } : {})
+    });
+  });
+
+  return { constraints, unavailability, issues };
+}
+
+export interface UsableConstraintsInput {
+  faculty: Person[];
+  staff: Person[];
+  days: number;
+  constraints: FacultyConstraint[];
+  unavailability: UnavailabilityConstraint[];
+}
+
+// Fixed days and leave that apply to the roster and exam days on screen. Entries for people no
+// longer on the roster or for days after the last one stay listed but are left out here, and
+// leave running past the last day is cut short.
+export function getUsableConstraints(input: UsableConstraintsInput): Pick<UsableConstraintsInput, 'constraints' | 'unavailability'> {
+  const { faculty, staff, days } = input;
+  const onRoster = (type: Person['type'], name: string) =>
+    (type === 'faculty' ? faculty : staff).some(p => p.name === name);
+  return {
+    constraints: input.constraints.filter(c => onRoster('faculty', c.facultyName) && c.day <= days),
+    unavailability: input.unavailability
+      .filter(u => onRoster(u.personType, u.personName) && u.fromDay <= days)
+      .map(u => u.toDay > days ? { ...u, toDay: days } : u)
+  };
+}
+
+// Rows for the constraints sheet, in the layout parseConstraintsSheet reads
+export function buildConstraintRows(
+  constraints: FacultyConstraint[],
+  unavailability: UnavailabilityConstraint[],
+  calendar: ExamDay[]
+): string[][] {
+  const dateOf = (day: number) => calendar.find(d => d.day === day)?.date ?? '';
+  return [
+    ['Name', 'Type', 'Day', 'To Day', 'Date', 'To Date', 'Note'],
+    ...constraints.map(c => [c.facultyName, 'fixed', String(c.day), '', dateOf(c.day), '', c.note ?? '']),
+    ...unavailability.map(u => [
+      u.personName,
+      'unavailable',
+      String(u.fromDay),
+      u.toDay === u.fromDay ? '' : String(u.toDay),
+      dateOf(u.fromDay),
+      u.toDay === u.fromDay ? '' : dateOf(u.toDay),
+      u.note ?? ''
+    ])
+  ];
+}
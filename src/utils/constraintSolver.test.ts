@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Person, Room } from '../types';
+import { ScheduleSolverError, solveSchedule } from './constraintSolver';
+import { analyseFeasibility } from './feasibility';
+import { generateSchedule } from './scheduleGenerator';
+import { validateSchedule } from './scheduleValidator';
+
+const people = (type: Person['type'], prefix: string, count: number): Person[] =>
+  Array.from({ length: count }, (_, i) => ({ name: `${prefix}${i + 1}`, type }));
+
+const rooms = (count: number): Room[] =>
+  Array.from({ length: count }, (_, i) => ({ id: i + 1, name: `R${i + 1}`, invigilators: 2, requiresFaculty: true }));
+
+describe('solveSchedule', () => {
+  // Six fixed faculty on day 1 need more rooms than six, but there are eight places that day
+  it('places more fixed faculty than rooms when there are places for them', () => {
+    const faculty = people('faculty', 'F', 8);
+    const staff = people('staff', 'S', 3);
+    const fixed = ['F1', 'F2', 'F3', 'F4', 'F5', 'F6'];
+    const constraints = fixed.map(facultyName => ({ facultyName, day: 1 }));
+    const options = { days: 3, rooms: rooms(4), preAssignedFaculty: { 1: fixed }, seed: 1 };
+
+    const report = analyseFeasibility({
+      faculty, staff, constraints, unavailability: [], days: 3, rooms: rooms(4),
+      sessionsPerDay: 1, oneSessionPerDay: true, rankRules: []
+    });
+    expect(report.issues.filter(issue => issue.severity === 'error')).toEqual([]);
+
+    const validation = { faculty, staff, constraints, unavailability: [], rankRules: [] };
+    for (const generate of [solveSchedule, generateSchedule]) {
+      const schedule = generate(faculty, staff, options);
+      expect(validateSchedule(schedule, validation).filter(v => v.severity === 'error')).toEqual([]);
+    }
+  });
+
+  // Only F4 can work days 2 and 3, which breaks the fairness margins but no hard rule
+  it('solves when only the soft margins cannot be met', () => {
+    const faculty = people('faculty', 'F', 4);
+    const staff = people('staff', 'S', 1);
+    const unavailability = ['F1', 'F2', 'F3'].map(personName => ({
+      personName, personType: 'faculty' as const, fromDay: 2, toDay: 3
+    }));
+    const unavailableDays = { 'faculty:F1': [2, 3], 'faculty:F2': [2, 3], 'faculty:F3': [2, 3] };
+
+    const schedule = solveSchedule(faculty, staff, { days: 3, rooms: rooms(1), unavailableDays, seed: 1 });
+    const validation = { faculty, staff, constraints: [], unavailability, rankRules: [] };
+    expect(validateSchedule(schedule, validation).filter(v => v.severity === 'error')).toEqual([]);
+  });
+
+  it('reports infeasible when a personal cap leaves a day short', () => {
+    const faculty = people('faculty', 'F', 4).map(f => f.name === 'F4' ? { ...f, maxDuties: 1 } : f);
+    const staff = people('staff', 'S', 1);
+    const unavailableDays = { 'faculty:F1': [2, 3], 'faculty:F2': [2, 3], 'faculty:F3': [2, 3] };
+
+    let failure: unknown;
+    try {
+      solveSchedule(faculty, staff, { days: 3, rooms: rooms(1), unavailableDays, seed: 1 });
+    } catch (error) {
+      failure = error;
+    }
+    expect(failure).toBeInstanceOf(ScheduleSolverError);
+    expect((failure as ScheduleSolverError).reason).toBe('infeasible');
+  });
+});
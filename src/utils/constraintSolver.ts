@@ -0,0 +1,459 @@
+import { DutyCount, FacultyConstraint, Person, Schedule, ScheduleEntry, UnavailabilityConstraint } from '../types';
+import { GenerateOptions } from './scheduleGenerator';
+import { createSeededRandom, generateSeed, shuffle } from './random';
+import { createDefaultRooms } from './rooms';
+import { DEFAULT_RANK_RULES, getSeniorityOrder } from './ranks';
+import { computeDutyLimits } from './dutyLimits';
+import { analyseFeasibility } from './feasibility';
+import { personKey } from './unavailability';
+import { getSessionShortLabel } from './sessions';
+
+export interface SolverOptions extends GenerateOptions {
+  maxNodes?: number; // Search budget; the solver gives up (without a verdict) once it is spent
+}
+
+export type SolverFailureReason = 'infeasible' | 'search-limit';
+
+// Thrown when the exact engine cannot return a schedule. For 'infeasible' the details
+// are the proof: counting arguments that no schedule can meet, or an exhausted search.
+export class ScheduleSolverError extends Error {
+  constructor(
+    public readonly reason: SolverFailureReason,
+    public readonly details: string[]
+  ) {
+    super(reason === 'infeasible'
+      ? 'No schedule satisfies the hard rules'
+      : 'The search limit was reached before a schedule was found');
+    this.name = 'ScheduleSolverError';
+  }
+}
+
+export const DEFAULT_MAX_NODES = 200000;
+
+// Feasibility errors that are sound counting bounds on the hard rules, so they settle the
+// verdict without a search; any other finding is left for the search to confirm
+const PROOF_RULES = [
+  'day-understaffed',
+  'session-understaffed',
+  'faculty-understaffed',
+  'total-understaffed',
+  'fixed-exempt',
+  'fixed-unavailable',
+  'fixed-day-oversubscribed',
+  'fixed-above-cap'
+];
+
+// Partial schedules tried between progress reports
+const PROGRESS_INTERVAL = 2000;
+
+// Bounds for the rest of the search from a slot boundary
+interface Bounds {
+  slack: number[]; // Slots a person can skip and still meet their lower bound
+  room: number[]; // Duties a person can still take
+}
+
+interface Position {
+  day: number;
+  session: number;
+  roomIndex: number;
+  index: number; // Position within the room
+  facultyOnly: boolean;
+}
+
+// Exact engine: depth-first search over every invigilator position with constraint propagation.
+// Hard rules are the ones the validator reports as errors: every position filled, one room
+// per person per session (per day when oneSessionPerDay), leave, exemptions and personal
+// caps, faculty in rooms that need one, fixed days and locked places. The rules it only warns
+// about are targets: the search first keeps fair-share and designation caps, staff exactly on
+// target and no room on consecutive days, lifts the faculty caps step by step when no schedule
+// keeps them, and as a last resort lets the other two go. Whatever it gave up then shows as
+// validator warnings.
+export function solveSchedule(faculty: Person[], staff: Person[], options: SolverOptions = {}): Schedule {
+  const {
+    preAssignedFaculty = {},
+    lockedAssignments = [],
+    unavailableDays = {},
+    days = 6,
+    calendar = Array.from({ length: days }, (_, i) => ({ day: i + 1 })),
+    rooms = createDefaultRooms(11),
+    rankRules = DEFAULT_RANK_RULES,
+    sessionsPerDay = 1,
+    oneSessionPerDay = false,
+    seed = generateSeed(),
+    maxNodes = DEFAULT_MAX_NODES
+  } = options;
+  const random = options.random ?? createSeededRandom(seed);
+  const onProgress = options.onProgress ?? (() => {});
+
+  const people = [...faculty, ...staff];
+  const isFaculty = people.map(p => p.type === 'faculty');
+
+  // Same inputs the feasibility check understands
+  const constraints: FacultyConstraint[] = Object.entries(preAssignedFaculty).flatMap(([day, names]) =>
+    names.map(facultyName => ({ facultyName, day: Number(day) }))
+  );
+  const unavailability: UnavailabilityConstraint[] = people.flatMap(p =>
+    (unavailableDays[personKey(p)] ?? []).map(day => ({ personName: p.name, personType: p.type, fromDay: day, toDay: day }))
+  );
+
+  // Counting arguments first: they prove infeasibility without any search
+  const report = analyseFeasibility({
+    faculty, staff, constraints, unavailability, days, rooms, sessionsPerDay, oneSessionPerDay, rankRules
+  });
+  const proofs = report.issues.filter(issue => issue.severity === 'error' && PROOF_RULES.includes(issue.ruleId));
+  if (proofs.length > 0) {
+    throw new ScheduleSolverError('infeasible', proofs.map(issue => issue.message));
+  }
+
+  const unavailable = new Map<string, Set<number>>();
+  Object.entries(unavailableDays).forEach(([key, blockedDays]) => unavailable.set(key, new Set(blockedDays)));
+  const limits = computeDutyLimits(faculty, staff, { days, sessionsPerDay, oneSessionPerDay, rooms, rankRules, unavailable });
+
+  // Personal caps and exemptions are hard, as in the validator; everyone else may go as far
+  // as the positions allow. Staff targets and the fair-share faculty caps (designation caps
+  // included) are where each stage starts.
+  const unlimited = limits.totalPositions;
+  const hardCap = people.map(p => limits.personalCaps.get(p.name) ?? unlimited);
+  const fairCap = people.map((p, id) => Math.min(hardCap[id], p.type === 'staff'
+    ? limits.staffTargets.get(p.name)!
+    : limits.maxDutiesPerFaculty.get(p.name)!));
+
+  // Caps for one stage of the search: faculty fair shares lifted by a margin and then, when
+  // they still add up to less than the faculty must cover, raised one duty at a time (most
+  // junior first) until they do. Staff stay within target unless lifted. Never above a hard cap.
+  const stageCaps = (margin: number, liftStaff: boolean): number[] => {
+    const caps = people.map((p, id) => {
+      if (p.type === 'faculty') return Math.min(hardCap[id], fairCap[id] + margin);
+      return liftStaff ? hardCap[id] : fairCap[id];
+    });
+    const facultyNeeded = limits.totalPositions - staff.reduce((sum, _, i) => sum + caps[faculty.length + i], 0);
+    const raisable = faculty.map((_, id) => id).reverse();
+    let capacity = faculty.reduce((sum, _, id) => sum + caps[id], 0);
+    while (capacity < facultyNeeded) {
+      const open = raisable.filter(id => caps[id] < hardCap[id]);
+      if (open.length === 0) break;
+      for (const id of open) {
+        if (capacity >= facultyNeeded) break;
+        caps[id]++;
+        capacity++;
+      }
+    }
+    return caps;
+  };
+
+  // Caps (hard within a stage) and minimums per person
+  let cap = stageCaps(0, false);
+  let minimum: number[] = [];
+  let avoidRoomRepeats = true;
+
+  const blocked = people.map(p => unavailable.get(personKey(p)) ?? new Set<number>());
+  const idOf = new Map(people.map((p, id) => [p.name, id]));
+  const fixedByDay = new Map<number, number[]>();
+  constraints.forEach(c => {
+    const id = idOf.get(c.facultyName);
+    if (id === undefined || !isFaculty[id]) return;
+    if (!fixedByDay.has(c.day)) fixedByDay.set(c.day, []);
+    fixedByDay.get(c.day)!.push(id);
+  });
+
+  // Positions in the order they are filled: day, session, room, then position within the room
+  const activeRooms = rooms.filter(room => room.invigilators > 0);
+  const positions: Position[] = [];
+  for (let day = 1; day <= days; day++) {
+    for (let session = 1; session <= sessionsPerDay; session++) {
+      activeRooms.forEach((room, roomIndex) => {
+        for (let index = 0; index < room.invigilators; index++) {
+          positions.push({ day, session, roomIndex, index, facultyOnly: index === 0 && room.requiresFaculty });
+        }
+      });
+    }
+  }
+
+  // Locked places, as the ids each room in a slot must contain. A lock that breaks a hard
+  // rule on its own is reported rather than searched around; one that no longer fits the
+  // setup (a removed room or day) is dropped, as the greedy engine does.
+  const lockedByRoom = new Map<string, number[]>();
+  const roomKey = (day: number, session: number, roomIndex: number) => `${day}/${session}/${roomIndex}`;
+  const lockProblems: string[] = [];
+  const lockedCount = new Array<number>(people.length).fill(0);
+  lockedAssignments.forEach(lock => {
+    const id = idOf.get(lock.name);
+    const roomIndex = activeRooms.findIndex(room => room.id === lock.room);
+    if (id === undefined || roomIndex === -1 || lock.day < 1 || lock.day > days ||
+      lock.session < 1 || lock.session > sessionsPerDay) return;
+
+    const key = roomKey(lock.day, lock.session, roomIndex);
+    const ids = lockedByRoom.get(key) ?? [];
+    if (ids.includes(id) || ids.length >= activeRooms[roomIndex].invigilators) return;
+    if (blocked[id].has(lock.day)) {
+      lockProblems.push(`${lock.name} is locked into day ${lock.day} but marked unavailable that day.`);
+    }
+    lockedByRoom.set(key, [...ids, id].sort((a, b) => a - b));
+    lockedCount[id]++;
+  });
+  people.forEach((p, id) => {
+    if (lockedCount[id] > hardCap[id]) {
+      lockProblems.push(`${p.name} is locked into ${lockedCount[id]} duties but may only take ${hardCap[id]}.`);
+    }
+  });
+  if (lockProblems.length > 0) {
+    throw new ScheduleSolverError('infeasible', lockProblems);
+  }
+
+  // Search state
+  const count = new Array<number>(people.length).fill(0);
+  const slotKey = (day: number, session: number) => day * (sessionsPerDay + 1) + session;
+  const usedSlots = people.map(() => new Set<number>());
+  const usedDays = people.map(() => new Map<number, number>()); // day -> sessions sat
+  const roomsOnDay = people.map(() => new Map<number, number[]>()); // day -> room indices
+  const chosen = new Array<number>(positions.length).fill(-1);
+
+  // Random tie-breaking, reshuffled on every restart; the seed reproduces the whole run
+  const tieBreak = new Array<number>(people.length);
+  const reshuffle = () => {
+    shuffle(people.map((_, id) => id), random).forEach((id, rank) => { tieBreak[id] = rank; });
+  };
+
+  // Slots a person could still sit from (day, session) onwards
+  const slotsFrom = (id: number, day: number, session: number): number => {
+    let slots = 0;
+    for (let d = day; d <= days; d++) {
+      if (blocked[id].has(d)) continue;
+      const remainingSessions = d === day ? sessionsPerDay - session + 1 : sessionsPerDay;
+      slots += oneSessionPerDay ? (usedDays[id].has(d) ? 0 : 1) : remainingSessions;
+    }
+    return slots;
+  };
+
+
+  // Propagation at the start of each slot: returns null when the partial schedule cannot be
+  // completed. Each person's lower bound is their own minimum, or whatever the others cannot
+  // cover of the remaining positions, whichever is larger.
+  const computeBounds = (nextPosition: number): Bounds | null => {
+    const next = positions[nextPosition];
+    const last = positions[nextPosition - 1];
+
+    // Fixed faculty must have been placed once their day is over
+    if (last && last.day !== next?.day) {
+      for (const id of fixedByDay.get(last.day) ?? []) {
+        if (!usedDays[id].has(last.day)) return null;
+      }
+    }
+    if (!next) return { slack: [], room: [] };
+
+    const remaining = positions.length - nextPosition;
+    let remainingFacultyOnly = 0;
+    for (let i = nextPosition; i < positions.length; i++) if (positions[i].facultyOnly) remainingFacultyOnly++;
+
+    const slots = people.map((_, id) => slotsFrom(id, next.day, next.session));
+    const room = people.map((_, id) => Math.min(slots[id], cap[id] - count[id]));
+    const need = people.map((_, id) => Math.max(0, minimum[id] - count[id]));
+
+    const totalRoom = room.reduce((sum, r) => sum + r, 0);
+    const facultyRoom = room.reduce((sum, r, id) => sum + (isFaculty[id] ? r : 0), 0);
+    const totalNeed = need.reduce((sum, n) => sum + n, 0);
+    const staffNeed = need.reduce((sum, n, id) => sum + (isFaculty[id] ? 0 : n), 0);
+
+    if (totalRoom < remaining || facultyRoom < remainingFacultyOnly ||
+      totalNeed > remaining || staffNeed > remaining - remainingFacultyOnly) {
+      return null;
+    }
+
+    const slack = people.map((_, id) => {
+      const lowerBound = Math.max(need[id], remaining - (totalRoom - room[id]));
+      return slots[id] - lowerBound;
+    });
+    if (slack.some(value => value < 0)) return null;
+
+    return { slack, room };
+  };
+
+  const canPlace = (id: number, position: Position): boolean => {
+    const { day, session, roomIndex } = position;
+    if (position.facultyOnly && !isFaculty[id]) return false;
+    if (count[id] >= cap[id] || blocked[id].has(day)) return false;
+    if (usedSlots[id].has(slotKey(day, session))) return false;
+    if (oneSessionPerDay && usedDays[id].has(day)) return false;
+    return !avoidRoomRepeats || !(roomsOnDay[id].get(day - 1) ?? []).includes(roomIndex);
+  };
+
+  const place = (id: number, i: number, delta: 1 | -1) => {
+    const { day, session, roomIndex } = positions[i];
+    count[id] += delta;
+    if (delta === 1) {
+      usedSlots[id].add(slotKey(day, session));
+      usedDays[id].set(day, (usedDays[id].get(day) ?? 0) + 1);
+      roomsOnDay[id].set(day, [...(roomsOnDay[id].get(day) ?? []), roomIndex]);
+      chosen[i] = id;
+    } else {
+      usedSlots[id].delete(slotKey(day, session));
+      const sat = usedDays[id].get(day)! - 1;
+      if (sat === 0) usedDays[id].delete(day); else usedDays[id].set(day, sat);
+      const dayRooms = [...roomsOnDay[id].get(day)!];
+      dayRooms.splice(dayRooms.lastIndexOf(roomIndex), 1);
+      roomsOnDay[id].set(day, dayRooms);
+      chosen[i] = -1;
+    }
+  };
+
+  let nodes = 0;
+  let budget = 0;
+  let deepest = 0;
+
+  // Depth-first search; bounds are computed at the start of each slot and reused within it
+  const search = (i: number, bounds: Bounds): boolean => {
+    if (i === positions.length) {
+      return people.every((_, id) => count[id] >= minimum[id]);
+    }
+    deepest = Math.max(deepest, i);
+
+    const position = positions[i];
+    const fixedToday = fixedByDay.get(position.day) ?? [];
+    // Positions in a room are filled in increasing person id, so each set of invigilators
+    // is tried once (faculty ids come first, so a faculty-only first position is canonical)
+    const previous = position.index > 0 ? chosen[i - 1] : -1;
+
+    // Locked ids above the previous one are still to be placed in this room; since ids
+    // increase, none may be skipped, and once they fill the room's last positions they are forced
+    const locked = lockedByRoom.get(roomKey(position.day, position.session, position.roomIndex)) ?? [];
+    const pending = locked.filter(id => id > previous);
+    const positionsLeft = activeRooms[position.roomIndex].invigilators - position.index;
+    const first = pending.length === positionsLeft ? pending[0] : previous + 1;
+    const last = pending.length > 0 ? pending[0] : people.length - 1;
+
+    const candidates: number[] = [];
+    for (let id = first; id <= last; id++) {
+      if (canPlace(id, position)) candidates.push(id);
+    }
+
+    // Most constrained first: unplaced fixed faculty, then the least slack,
+    // then the most headroom under their cap (which keeps loads even)
+    const urgency = (id: number): number => {
+      if (pending.includes(id)) return -2;
+      return fixedToday.includes(id) && !usedDays[id].has(position.day) ? -1 : bounds.slack[id];
+    };
+    candidates.sort((a, b) =>
+      urgency(a) - urgency(b) || bounds.room[b] - bounds.room[a] || tieBreak[a] - tieBreak[b]
+    );
+
+    for (const id of candidates) {
+      if (++nodes > budget) return false;
+      if (nodes % PROGRESS_INTERVAL === 0) onProgress({ phase: 'searching', day: position.day, days, nodes });
+
+      place(id, i, 1);
+      const next = positions[i + 1];
+      const endOfSlot = !next || next.day !== position.day || next.session !== position.session;
+      const nextBounds = endOfSlot ? computeBounds(i + 1) : bounds;
+      if (nextBounds && search(i + 1, nextBounds)) return true;
+      place(id, i, -1);
+    }
+    return false;
+  };
+
+  // Stages from the fair shares up to the hard caps, the margin doubling each time; then the
+  // same again letting staff fall short of target and rooms repeat on the next day; and a last
+  // stage with only the hard rules, no targets or minimums, so only its verdict is a proof.
+  // Within a stage, randomised restarts each run a complete search with a share of the
+  // budget, so an attempt that finishes within its share proves that stage has no schedule.
+  // A stage that proves nothing may keep half the remaining budget; the last gets the rest.
+  const RESTARTS = 5;
+  const margins = [0];
+  while (faculty.some((_, id) => fairCap[id] + margins[margins.length - 1] < hardCap[id])) {
+    margins.push(Math.max(1, margins[margins.length - 1] * 2));
+  }
+  const stages = [
+    ...margins.map(margin => ({ margin, strict: true, liftStaff: false })),
+    ...margins.map(margin => ({ margin, strict: false, liftStaff: false })),
+    { margin: margins[margins.length - 1], strict: false, liftStaff: true }
+  ];
+
+  let solved = false;
+  let exhausted = false; // The last stage tried was proved to have no schedule
+  let countedOut = false; // The last stage tried failed on counting alone
+  let reachedLastStage = false; // Only a verdict on the loosest caps proves anything
+  for (let stage = 0; stage < stages.length && !solved && nodes < maxNodes; stage++) {
+    const { margin, strict, liftStaff } = stages[stage];
+    reachedLastStage = stage === stages.length - 1;
+    cap = stageCaps(margin, liftStaff);
+    minimum = people.map((p, id) => {
+      if (liftStaff) return 0;
+      return p.type === 'staff' && strict ? fairCap[id] : Math.min(p.minDuties ?? 0, cap[id]);
+    });
+    avoidRoomRepeats = strict;
+    const initialBounds = computeBounds(0);
+    countedOut = initialBounds === null;
+    exhausted = countedOut;
+    if (!initialBounds) continue;
+
+    const stageLimit = reachedLastStage ? maxNodes : nodes + Math.ceil((maxNodes - nodes) / 2);
+    for (let attempt = 0; attempt < RESTARTS && !solved && !exhausted && nodes < stageLimit; attempt++) {
+      onProgress({ phase: 'searching', days, nodes });
+      reshuffle();
+      budget = Math.min(stageLimit, nodes + Math.ceil(maxNodes / RESTARTS));
+      solved = search(0, initialBounds);
+      exhausted = !solved && nodes <= budget;
+    }
+  }
+
+  if (!solved && reachedLastStage && countedOut) {
+    throw new ScheduleSolverError('infeasible', [
+      'Counting what each person can take (one duty per session, within their personal caps), the roster cannot fill every position.'
+    ]);
+  }
+  if (!solved) {
+    const stuck = positions[Math.min(deepest, positions.length - 1)];
+    const where = `day ${stuck.day}${sessionsPerDay > 1 ? ` ${getSessionShortLabel(stuck.session)}` : ''}, ${activeRooms[stuck.roomIndex].name}`;
+    if (!reachedLastStage || !exhausted) {
+      throw new ScheduleSolverError('search-limit', [
+        `Explored ${maxNodes} partial schedules without finding one that satisfies the hard rules; the furthest got to ${where}.`,
+        'Relax a constraint, or use the greedy engine.'
+      ]);
+    }
+    throw new ScheduleSolverError('infeasible', [
+      `Every way of filling the positions was tried (${nodes} partial schedules), with fair shares, staff targets and room rotation relaxed; none keeps the hard rules. The furthest got to ${where}.`
+    ]);
+  }
+
+  // Build the schedule, lead first by seniority
+  const facultySeniority = getSeniorityOrder(faculty, rankRules);
+  const staffSeniority = getSeniorityOrder(staff, rankRules);
+  const seniorityRank = (person: Person): number =>
+    person.type === 'faculty'
+      ? facultySeniority.get(person.name)!
+      : facultySeniority.size + staffSeniority.get(person.name)!;
+
+  const entries: ScheduleEntry[] = [];
+  positions.forEach((position, i) => {
+    const room = activeRooms[position.roomIndex];
+    let entry = entries.find(e => e.day === position.day && e.session === position.session && e.room === room.id);
+    if (!entry) {
+      entry = { invigilators: [], room: room.id, day: position.day, session: position.session };
+      entries.push(entry);
+    }
+    entry.invigilators.push({ person: people[chosen[i]], role: 'assistant' });
+  });
+  entries.forEach(entry => {
+    entry.invigilators.sort((a, b) => seniorityRank(a.person) - seniorityRank(b.person));
+    entry.invigilators.forEach((invigilator, index) => {
+      invigilator.role = index === 0 ? 'lead' : 'assistant';
+    });
+  });
+
+  const dutyCounts = (type: Person['type']): DutyCount[] => people
+    .map((person, id) => ({ person, count: count[id] }))
+    .filter(({ person }) => person.type === type)
+    .map(({ person, count }) => ({ name: person.name, count }))
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    entries,
+    facultyDuties: dutyCounts('faculty'),
+    staffDuties: dutyCounts('staff'),
+    seed,
+    days,
+    calendar,
+    sessionsPerDay,
+    oneSessionPerDay,
+    rooms
+  };
+}
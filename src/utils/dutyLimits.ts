@@ -0,0 +1,111 @@
+import { Person, RankRule, Room } from '../types';
+import { findRankRule, hasRecognisedRanks } from './ranks';
+import { personKey } from './unavailability';
+
+export interface DutyLimitSettings {
+  days: number;
+  sessionsPerDay: number;
+  oneSessionPerDay: boolean;
+  rooms: Room[];
+  rankRules: RankRule[];
+  unavailable: Map<string, Set<number>>; // Days off, keyed by personKey
+}
+
+export interface DutyLimits {
+  staffTargets: Map<string, number>; // Exact number of duties each staff member should get
+  maxDutiesPerFaculty: Map<string, number>; // Cap used while filling and balancing
+  minDutiesPerFaculty: number; // Default floor used while balancing
+  personalCaps: Map<string, number>; // Caps from the roster that are never exceeded
+  totalStaffDuties: number;
+  totalPositions: number;
+}
+
+// Cap set for a person in the roster: none for exempt people, MaxDuties otherwise
+export function getPersonalCap(person: Person): number | undefined {
+  if (person.exempt) return 0;
+  return person.maxDuties;
+}
+
+// Work out how many duties each person should get from the exam size, ranks and roster limits
+export function computeDutyLimits(faculty: Person[], staff: Person[], settings: DutyLimitSettings): DutyLimits {
+  const { days, sessionsPerDay, oneSessionPerDay, rooms, rankRules, unavailable } = settings;
+
+  // Number of (day, session) slots a person can sit on a single available day
+  const slotsPerAvailableDay = oneSessionPerDay ? 1 : sessionsPerDay;
+
+  const personalCaps = new Map<string, number>();
+  [...faculty, ...staff].forEach(person => {
+    const cap = getPersonalCap(person);
+    if (cap !== undefined) personalCaps.set(person.name, cap);
+  });
+
+  // Staff duty target is (days-1) per person, limited by the slots they are available
+  // and raised or lowered by their own MinDuties / MaxDuties
+  const staffDutyTarget = days - 1;
+  const staffTargets = new Map<string, number>();
+  staff.forEach(s => {
+    const availableSlots = (days - (unavailable.get(personKey(s))?.size ?? 0)) * slotsPerAvailableDay;
+    let target = Math.min(staffDutyTarget, availableSlots);
+    if (s.minDuties !== undefined) target = Math.max(target, Math.min(s.minDuties, availableSlots));
+    target = Math.min(target, personalCaps.get(s.name) ?? target);
+    staffTargets.set(s.name, target);
+  });
+
+  const totalSlots = days * sessionsPerDay;
+  const totalStaffDuties = Array.from(staffTargets.values()).reduce((sum, target) => sum + target, 0);
+
+  // Calculate faculty duty thresholds
+  const positionsPerSlot = rooms.reduce((sum, room) => sum + room.invigilators, 0);
+  const totalPositions = totalSlots * positionsPerSlot; // slots * invigilators required across all rooms
+  const remainingDutiesForFaculty = totalPositions - totalStaffDuties;
+
+  // Calculate base max duties per faculty, leaving exempt faculty out of the share
+  const activeFaculty = faculty.filter(f => personalCaps.get(f.name) !== 0);
+  const baseMaxDutiesPerFaculty = Math.ceil(remainingDutiesForFaculty / Math.max(1, activeFaculty.length));
+
+  // Capped faculty take at most their cap; everyone else shares what is left
+  const useRanks = hasRecognisedRanks(faculty, rankRules);
+  const caps = new Map<string, number>();
+  faculty.forEach(f => {
+    const rankCap = useRanks ? findRankRule(rankRules, f.rank)?.maxDuties ?? undefined : undefined;
+    const personalCap = personalCaps.get(f.name);
+    if (rankCap === undefined && personalCap === undefined) return;
+    caps.set(f.name, Math.min(rankCap ?? Infinity, personalCap ?? Infinity, baseMaxDutiesPerFaculty));
+  });
+
+  const cappedDuties = Array.from(caps.values()).reduce((sum, cap) => sum + cap, 0);
+  const uncappedCount = faculty.length - caps.size;
+  const sharedMaxDuties = uncappedCount > 0
+    ? Math.max(baseMaxDutiesPerFaculty, Math.ceil((remainingDutiesForFaculty - cappedDuties) / uncappedCount))
+    : baseMaxDutiesPerFaculty;
+
+  const maxDutiesPerFaculty = new Map<string, number>();
+  if (useRanks) {
+    faculty.forEach(f => maxDutiesPerFaculty.set(f.name, caps.get(f.name) ?? sharedMaxDuties));
+  } else {
+    // Without ranks, the top 30% of the roster are considered senior and get fewer duties
+    const seniorityThreshold = Math.floor(faculty.length * 0.3);
+    faculty.forEach((f, index) => {
+      const defaultMax = index < seniorityThreshold ? Math.max(1, sharedMaxDuties - 2) : sharedMaxDuties;
+      maxDutiesPerFaculty.set(f.name, Math.min(caps.get(f.name) ?? Infinity, defaultMax));
+    });
+  }
+
+  // A personal MinDuties lifts the cap so the floor can be reached
+  faculty.forEach(f => {
+    if (f.minDuties === undefined) return;
+    const floor = Math.min(f.minDuties, personalCaps.get(f.name) ?? Infinity);
+    maxDutiesPerFaculty.set(f.name, Math.max(maxDutiesPerFaculty.get(f.name)!, floor));
+  });
+
+  const minDutiesPerFaculty = Math.max(0, baseMaxDutiesPerFaculty - 2); // Set minimum 2 less than max
+
+  return {
+    staffTargets,
+    maxDutiesPerFaculty,
+    minDutiesPerFaculty,
+    personalCaps,
+    totalStaffDuties,
+    totalPositions
+  };
+}
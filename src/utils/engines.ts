@@ -0,0 +1,30 @@
+import { Person, Schedule } from '../types';
+import { GenerateOptions, generateSchedule } from './scheduleGenerator';
+import { solveSchedule } from './constraintSolver';
+
+export type SchedulingEngine = 'greedy' | 'exact';
+
+export const SCHEDULING_ENGINES: { id: SchedulingEngine; label: string; description: string }[] = [
+  {
+    id: 'greedy',
+    label: 'Greedy (fast)',
+    description: 'Always returns a schedule, bending soft rules when it has to'
+  },
+  {
+    id: 'exact',
+    label: 'Exact solver',
+    description: 'Keeps every hard rule, or explains why no schedule can; bends fair shares and staff targets only when it must'
+  }
+];
+
+// Run the selected engine; the exact engine throws ScheduleSolverError when it has no schedule
+export function runEngine(
+  engine: SchedulingEngine,
+  faculty: Person[],
+  staff: Person[],
+  options: GenerateOptions
+): Schedule {
+  return engine === 'exact'
+    ? solveSchedule(faculty, staff, options)
+    : generateSchedule(faculty, staff, options);
+}
@@ -0,0 +1,189 @@
+import * as XLSX from 'xlsx';
+import { ExamDay, FacultyConstraint, Schedule, UnavailabilityConstraint } from '../types';
+import { getSessionShortLabel } from './sessions';
+import { getRoomRowCount } from './rooms';
+import { formatDayTitle, formatWeekday } from './calendar';
+import { DUTY_CHANGE_LABELS, PersonDiff, formatSlot } from './scheduleDiff';
+import { SpreadsheetFormat } from './spreadsheet';
+import { CONSTRAINTS_SHEET_NAME, buildConstraintRows } from './constraintImport';
+
+const THIN_BORDER = { style: 'thin', color: { rgb: '000000' } };
+
+// Helper function to get an A1-style reference (handles columns past Z)
+const getCellRef = (r: number, c: number): string => XLSX.utils.encode_cell({ r, c });
+
+// Main grid: one column per day and session, each room spanning one row per invigilator
+export function buildScheduleSheet(schedule: Schedule): XLSX.WorkSheet {
+  const ws: XLSX.WorkSheet = {};
+  const merges: XLSX.Range[] = [];
+  const sessions = schedule.sessionsPerDay;
+  const examDays: ExamDay[] = schedule.calendar.length === schedule.days
+    ? schedule.calendar
+    : Array.from({ length: schedule.days }, (_, i) => ({ day: i + 1 }));
+
+  // Column holding a given day and session
+  const getColumn = (day: number, session: number): number => (day - 1) * sessions + session;
+  const lastColumn = schedule.days * sessions;
+
+  ws['!cols'] = [
+    { wch: 20 }, // Date&Day/Classroom column
+    ...Array.from({ length: lastColumn }, () => ({ wch: 12 }))
+  ];
+
+  ws[getCellRef(0, 0)] = { t: 's', v: 'Date&Day/Classroom' };
+
+  examDays.forEach(examDay => {
+    // Header row with merged day cells
+    const headerRef = getCellRef(0, getColumn(examDay.day, 1));
+    ws[headerRef] = { t: 's', v: formatDayTitle(examDay), s: { alignment: { horizontal: 'center' } } };
+    if (sessions > 1) {
+      merges.push({
+        s: { r: 0, c: getColumn(examDay.day, 1) },
+        e: { r: 0, c: getColumn(examDay.day, sessions) }
+      });
+    }
+
+    // Weekday row, with the session for multi-session days
+    const weekday = formatWeekday(examDay);
+    for (let session = 1; session <= sessions; session++) {
+      const sessionLabel = getSessionShortLabel(session);
+      const label = sessions > 1 ? (weekday ? `${weekday} (${sessionLabel})` : sessionLabel) : weekday;
+      ws[getCellRef(1, getColumn(examDay.day, session))] = {
+        t: 's',
+        v: label,
+        s: { alignment: { horizontal: 'center' } }
+      };
+    }
+  });
+
+  // First column with room labels, merged vertically over the room's invigilator rows
+  const roomStartRows = new Map<number, number>();
+  let nextRow = 2;
+  schedule.rooms.forEach(room => {
+    const rowsForRoom = getRoomRowCount(room, schedule.entries);
+    roomStartRows.set(room.id, nextRow);
+
+    ws[getCellRef(nextRow, 0)] = { t: 's', v: room.name };
+    if (rowsForRoom > 1) {
+      merges.push({
+        s: { r: nextRow, c: 0 },
+        e: { r: nextRow + rowsForRoom - 1, c: 0 }
+      });
+    }
+    nextRow += rowsForRoom;
+  });
+
+  // One row per invigilator, lead first
+  schedule.entries.forEach(entry => {
+    const startRow = roomStartRows.get(entry.room);
+    if (startRow === undefined || entry.day > schedule.days || entry.session > sessions) return;
+
+    entry.invigilators.forEach((invigilator, index) => {
+      ws[getCellRef(startRow + index, getColumn(entry.day, entry.session))] = {
+        t: 's',
+        v: invigilator.person.name
+      };
+    });
+  });
+
+  const range: XLSX.Range = { s: { r: 0, c: 0 }, e: { r: Math.max(1, nextRow - 1), c: lastColumn } };
+  ws['!ref'] = XLSX.utils.encode_range(range);
+  ws['!merges'] = merges;
+
+  // Add borders to all filled cells
+  for (let row = range.s.r; row <= range.e.r; row++) {
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const cell = ws[getCellRef(row, col)];
+      if (cell) {
+        cell.s = {
+          ...cell.s,
+          border: { top: THIN_BORDER, bottom: THIN_BORDER, left: THIN_BORDER, right: THIN_BORDER }
+        };
+      }
+    }
+  }
+
+  return ws;
+}
+
+// Faculty and staff duty totals
+export function buildDutyCountsSheet(schedule: Schedule): XLSX.WorkSheet {
+  return XLSX.utils.aoa_to_sheet([
+    ['Faculty Duties'],
+    ['Name', 'Count'],
+    ...schedule.facultyDuties.map(f => [f.name, f.count]),
+    [],
+    ['Staff Duties'],
+    ['Name', 'Count'],
+    ...schedule.staffDuties.map(s => [s.name, s.count])
+  ]);
+}
+
+export function buildScheduleWorkbook(schedule: Schedule): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, buildScheduleSheet(schedule), 'Examination Schedule');
+  XLSX.utils.book_append_sheet(wb, buildDutyCountsSheet(schedule), 'Duty Counts');
+  return wb;
+}
+
+// Excel and OpenDocument files hold both sheets; CSV holds one sheet per file, so the
+// grid and the duty counts are downloaded as two files
+export function downloadScheduleWorkbook(
+  schedule: Schedule,
+  format: SpreadsheetFormat = 'xlsx',
+  baseName = 'examination-schedule'
+): void {
+  if (format !== 'csv') {
+    XLSX.writeFile(buildScheduleWorkbook(schedule), `${baseName}.${format}`, { bookType: format });
+    return;
+  }
+
+  const workbook = buildScheduleWorkbook(schedule);
+  workbook.SheetNames.forEach((sheetName, index) => {
+    const single = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(single, workbook.Sheets[sheetName], sheetName);
+    XLSX.writeFile(single, index === 0 ? `${baseName}.csv` : `${baseName}-duty-counts.csv`, { bookType: 'csv' });
+  });
+}
+
+// Notice-board list of changes since an earlier version: one row per changed duty
+export function buildChangesSheet(diffs: PersonDiff[], before: Schedule, after: Schedule): XLSX.WorkSheet {
+  const ws = XLSX.utils.aoa_to_sheet([
+    ['Name', 'Type', 'Change', 'Was', 'Now'],
+    ...diffs.flatMap(diff => diff.changes.map(change => [
+      diff.name,
+      diff.type,
+      DUTY_CHANGE_LABELS[change.kind],
+      change.before ? formatSlot(before, change.before) : '',
+      change.after ? formatSlot(after, change.after) : ''
+    ]))
+  ]);
+  ws['!cols'] = [{ wch: 25 }, { wch: 10 }, { wch: 16 }, { wch: 30 }, { wch: 30 }];
+  return ws;
+}
+
+export function downloadChangesWorkbook(
+  diffs: PersonDiff[],
+  before: Schedule,
+  after: Schedule,
+  fileName = 'schedule-changes.xlsx'
+): void {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, buildChangesSheet(diffs, before, after), 'Changes');
+  XLSX.writeFile(wb, fileName);
+}
+
+// The constraint list in the layout of the optional Constraints sheet, so it can be edited
+// and uploaded again with the roster
+export function downloadConstraintsWorkbook(
+  constraints: FacultyConstraint[],
+  unavailability: UnavailabilityConstraint[],
+  calendar: ExamDay[],
+  fileName = 'constraints.xlsx'
+): void {
+  const ws = XLSX.utils.aoa_to_sheet(buildConstraintRows(constraints, unavailability, calendar));
+  ws['!cols'] = [{ wch: 25 }, { wch: 12 }, { wch: 6 }, { wch: 6 }, { wch: 12 }, { wch: 12 }, { wch: 30 }];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, CONSTRAINTS_SHEET_NAME);
+  XLSX.writeFile(wb, fileName);
+}
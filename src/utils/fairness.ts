@@ -0,0 +1,109 @@
+import { Person, Schedule, Violation } from '../types';
+import { MAX_SEED, createSeededRandom, generateSeed } from './random';
+import { ValidationInput, validateSchedule } from './scheduleValidator';
+
+// How fair a schedule is; every term is a penalty, so lower is better
+export interface FairnessScore {
+  total: number; // Weighted sum of the terms below
+  dutyVariance: number; // Variance of duty counts, faculty and staff taken separately, then added
+  dutySpread: number; // Most minus fewest duties, faculty and staff taken separately, then added
+  consecutiveDays: number; // Times someone is on duty two days in a row
+  errors: number; // Rule violations found by validateSchedule
+  warnings: number;
+}
+
+export interface ScoredSchedule {
+  schedule: Schedule;
+  score: FairnessScore;
+}
+
+// Rule violations outweigh any imbalance; among valid schedules the most even one wins
+export const FAIRNESS_WEIGHTS = {
+  dutyVariance: 10,
+  dutySpread: 5,
+  consecutiveDays: 1,
+  errors: 1000,
+  warnings: 20
+};
+
+// Candidates kept for browsing in best-of-N mode
+export const TOP_CANDIDATES = 5;
+
+// Largest number of candidates the UI offers to generate
+export const MAX_CANDIDATES = 50;
+
+// Score a schedule; pass the violations when they are already known to skip revalidating
+export function scoreSchedule(
+  schedule: Schedule,
+  input: ValidationInput,
+  violations: Violation[] = validateSchedule(schedule, input)
+): FairnessScore {
+  const counts = new Map<string, number>();
+  const daysOnDuty = new Map<string, Set<number>>();
+  schedule.entries.forEach(entry => {
+    entry.invigilators.forEach(({ person }) => {
+      counts.set(person.name, (counts.get(person.name) ?? 0) + 1);
+      if (!daysOnDuty.has(person.name)) daysOnDuty.set(person.name, new Set());
+      daysOnDuty.get(person.name)!.add(entry.day);
+    });
+  });
+
+  // Exempt people never take duties, so they say nothing about how evenly the rest are loaded
+  const groupCounts = (people: Person[]) => people.filter(p => !p.exempt).map(p => counts.get(p.name) ?? 0);
+  const groups = [groupCounts(input.faculty), groupCounts(input.staff)].filter(group => group.length > 0);
+
+  const dutyVariance = groups.reduce((sum, group) => {
+    const mean = group.reduce((a, b) => a + b, 0) / group.length;
+    return sum + group.reduce((a, b) => a + (b - mean) ** 2, 0) / group.length;
+  }, 0);
+  const dutySpread = groups.reduce((sum, group) => sum + Math.max(...group) - Math.min(...group), 0);
+
+  let consecutiveDays = 0;
+  daysOnDuty.forEach(dutyDays => {
+    dutyDays.forEach(day => {
+      if (dutyDays.has(day + 1)) consecutiveDays++;
+    });
+  });
+
+  const errors = violations.filter(v => v.severity === 'error').length;
+  const warnings = violations.length - errors;
+
+  const total =
+    FAIRNESS_WEIGHTS.dutyVariance * dutyVariance +
+    FAIRNESS_WEIGHTS.dutySpread * dutySpread +
+    FAIRNESS_WEIGHTS.consecutiveDays * consecutiveDays +
+    FAIRNESS_WEIGHTS.errors * errors +
+    FAIRNESS_WEIGHTS.warnings * warnings;
+
+  return { total, dutyVariance, dutySpread, consecutiveDays, errors, warnings };
+}
+
+// Generate several candidates and keep the fairest few, best first. With a seed, the
+// candidate seeds are drawn from it so the whole run can be repeated; each candidate
+// records its own seed, so a kept one can be regenerated on its own.
+export function generateBestOf(
+  count: number,
+  generate: (seed: number, candidate: number) => Schedule,
+  input: ValidationInput,
+  seed?: number,
+  keep: number = TOP_CANDIDATES
+): ScoredSchedule[] {
+  const random = seed !== undefined ? createSeededRandom(seed) : undefined;
+  const scored: ScoredSchedule[] = [];
+
+  for (let candidate = 1; candidate <= count; candidate++) {
+    // A single run keeps the requested seed itself
+    const candidateSeed = count === 1 && seed !== undefined
+      ? seed
+      : random ? Math.floor(random() * MAX_SEED) : generateSeed();
+    const schedule = generate(candidateSeed, candidate);
+    scored.push({ schedule, score: scoreSchedule(schedule, input) });
+  }
+
+  return scored.sort((a, b) => a.score.total - b.score.total).slice(0, keep);
+}
+
+// Score rounded for display
+export function formatScore(score: FairnessScore): string {
+  return score.total.toFixed(1);
+}
@@ -0,0 +1,226 @@
+import { FacultyConstraint, Person, RankRule, Room, UnavailabilityConstraint, ViolationSeverity } from '../types';
+import { computeDutyLimits, getPersonalCap } from './dutyLimits';
+import { getUnavailableDays, isUnavailableOn, personKey } from './unavailability';
+
+export interface FeasibilityInput {
+  faculty: Person[];
+  staff: Person[];
+  constraints: FacultyConstraint[];
+  unavailability: UnavailabilityConstraint[];
+  days: number;
+  rooms: Room[];
+  sessionsPerDay: number;
+  oneSessionPerDay: boolean;
+  rankRules: RankRule[];
+  dayLabel?: (day: number) => string; // Defaults to "Day N"
+}
+
+// Why the configuration cannot (or can only barely) be scheduled, and what to change
+export interface FeasibilityIssue {
+  ruleId: string;
+  severity: ViolationSeverity;
+  message: string;
+  suggestion: string;
+  day?: number;
+  person?: string;
+}
+
+// Positions to fill on a day against the people who can fill them
+export interface DayCapacity {
+  day: number;
+  requiredPositions: number; // Across all sessions
+  requiredFacultyPositions: number; // Faculty-only positions across all sessions
+  availableFaculty: number;
+  availableStaff: number;
+  personSlots: number; // Positions the available people can cover that day
+  facultySlots: number;
+}
+
+export interface FeasibilityReport {
+  feasible: boolean; // False when any issue is an error
+  issues: FeasibilityIssue[];
+  dayCapacity: DayCapacity[];
+  totalPositions: number;
+  totalPersonSlots: number;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Check, before generating, whether a schedule that keeps every hard rule can exist
+export function analyseFeasibility(input: FeasibilityInput): FeasibilityReport {
+  const { faculty, staff, constraints, unavailability, days, rooms, sessionsPerDay, oneSessionPerDay, rankRules } = input;
+  const dayLabel = input.dayLabel ?? ((day: number) => `Day ${day}`);
+  const issues: FeasibilityIssue[] = [];
+
+  const unavailable = getUnavailableDays(unavailability);
+
+  // Each person covers one position per session, or one per day when limited to a session a day
+  const slotsPerAvailableDay = oneSessionPerDay ? 1 : sessionsPerDay;
+  const positionsPerSlot = rooms.reduce((sum, room) => sum + room.invigilators, 0);
+  const facultyPositionsPerSlot = rooms.filter(room => room.requiresFaculty && room.invigilators > 0).length;
+  const canWork = (person: Person, day: number) =>
+    getPersonalCap(person) !== 0 && !isUnavailableOn(unavailable, person, day);
+
+  // Per-day capacity
+  const dayCapacity: DayCapacity[] = [];
+  for (let day = 1; day <= days; day++) {
+    const availableFaculty = faculty.filter(f => canWork(f, day)).length;
+    const availableStaff = staff.filter(s => canWork(s, day)).length;
+    const capacity: DayCapacity = {
+      day,
+      requiredPositions: positionsPerSlot * sessionsPerDay,
+      requiredFacultyPositions: facultyPositionsPerSlot * sessionsPerDay,
+      availableFaculty,
+      availableStaff,
+      personSlots: (availableFaculty + availableStaff) * slotsPerAvailableDay,
+      facultySlots: availableFaculty * slotsPerAvailableDay
+    };
+    dayCapacity.push(capacity);
+
+    const away = faculty.length + staff.length - availableFaculty - availableStaff;
+    const awayNote = away > 0 ? ` (${plural(away, 'person')} on leave or exempt)` : '';
+
+    if (oneSessionPerDay && sessionsPerDay > 1 && capacity.personSlots < capacity.requiredPositions) {
+      issues.push({
+        ruleId: 'day-understaffed',
+        severity: 'error',
+        day,
+        message: `${dayLabel(day)} needs ${capacity.requiredPositions} invigilators over ${plural(sessionsPerDay, 'session')}, but only ${capacity.personSlots} people are available${awayNote} and nobody may sit two sessions a day.`,
+        suggestion: 'Untick "No two sessions on the same day for one person", reduce rooms or invigilators per room, or move leave to another day.'
+      });
+    } else if (availableFaculty + availableStaff < positionsPerSlot) {
+      issues.push({
+        ruleId: 'session-understaffed',
+        severity: 'error',
+        day,
+        message: `Each session on ${dayLabel(day)} needs ${positionsPerSlot} invigilators, but only ${availableFaculty + availableStaff} people are available${awayNote}.`,
+        suggestion: 'Reduce the number of rooms or invigilators per room, add people to the roster, or move leave to another day.'
+      });
+    }
+
+    if (capacity.facultySlots < capacity.requiredFacultyPositions) {
+      issues.push({
+        ruleId: 'faculty-understaffed',
+        severity: 'error',
+        day,
+        message: `${dayLabel(day)} needs a faculty member in ${capacity.requiredFacultyPositions} room sessions, but the ${plural(availableFaculty, 'available faculty member')} can cover only ${capacity.facultySlots}.`,
+        suggestion: 'Untick "Needs Faculty" for some rooms or move faculty leave to another day.'
+      });
+    }
+  }
+
+  // Whole-exam capacity, counting personal caps and exemptions
+  const personCapacity = (person: Person): number => {
+    const availableDays = days - Array.from(unavailable.get(personKey(person)) ?? []).filter(d => d >= 1 && d <= days).length;
+    return Math.min(getPersonalCap(person) ?? Infinity, availableDays * slotsPerAvailableDay);
+  };
+  const totalPositions = positionsPerSlot * sessionsPerDay * days;
+  const totalPersonSlots = [...faculty, ...staff].reduce((sum, person) => sum + personCapacity(person), 0);
+
+  if (totalPersonSlots < totalPositions) {
+    issues.push({
+      ruleId: 'total-understaffed',
+      severity: 'error',
+      message: `The exam needs ${totalPositions} duties in total, but the roster can cover at most ${totalPersonSlots} once leave, exemptions and personal caps are taken into account.`,
+      suggestion: 'Add people, raise personal MaxDuties caps, or reduce days, sessions, rooms or invigilators per room.'
+    });
+  }
+
+  // Duty targets and rank caps (soft: the generator overrides them when it must)
+  const limits = computeDutyLimits(faculty, staff, { days, sessionsPerDay, oneSessionPerDay, rooms, rankRules, unavailable });
+  const staffPositions = (positionsPerSlot - facultyPositionsPerSlot) * sessionsPerDay * days;
+  if (limits.totalStaffDuties > staffPositions) {
+    issues.push({
+      ruleId: 'staff-targets-too-high',
+      severity: 'warning',
+      message: `Staff targets add up to ${limits.totalStaffDuties} duties, but only ${staffPositions} positions are open to staff, so some staff will fall short of their target.`,
+      suggestion: 'Reduce the number of days, or set MaxDuties for some staff.'
+    });
+  }
+
+  const facultyCapacity = faculty.reduce((sum, f) => sum + limits.maxDutiesPerFaculty.get(f.name)!, 0);
+  const facultyNeeded = totalPositions - Math.min(limits.totalStaffDuties, staffPositions);
+  if (faculty.length > 0 && facultyCapacity < facultyNeeded) {
+    issues.push({
+      ruleId: 'faculty-caps-too-low',
+      severity: 'warning',
+      message: `Faculty need to cover ${facultyNeeded} duties, but their caps allow only ${facultyCapacity}, so some faculty will exceed their cap.`,
+      suggestion: 'Raise the duty caps in Designations & Duty Caps, or add faculty.'
+    });
+  }
+
+  // Fixed days
+  const fixedPerDay = new Map<number, string[]>();
+  constraints.forEach(c => {
+    const person = faculty.find(f => f.name === c.facultyName);
+    if (!person) return;
+
+    if (getPersonalCap(person) === 0) {
+      issues.push({
+        ruleId: 'fixed-exempt',
+        severity: 'error',
+        day: c.day,
+        person: c.facultyName,
+        message: `${c.facultyName} is fixed to ${dayLabel(c.day)} but is exempt from duties.`,
+        suggestion: `Remove the fixed day for ${c.facultyName} or clear their exemption.`
+      });
+      return;
+    }
+    if (isUnavailableOn(unavailable, person, c.day)) {
+      issues.push({
+        ruleId: 'fixed-unavailable',
+        severity: 'error',
+        day: c.day,
+        person: c.facultyName,
+        message: `${c.facultyName} is fixed to ${dayLabel(c.day)} but marked unavailable that day.`,
+        suggestion: `Remove either the fixed day or the unavailability for ${c.facultyName}.`
+      });
+      return;
+    }
+
+    if (!fixedPerDay.has(c.day)) fixedPerDay.set(c.day, []);
+    fixedPerDay.get(c.day)!.push(c.facultyName);
+  });
+
+  // Each fixed faculty member needs one place that day; every place is open to faculty, and
+  // staff have no places of their own that faculty could not take
+  const placesPerDay = positionsPerSlot * sessionsPerDay;
+  fixedPerDay.forEach((names, day) => {
+    const fixedCount = new Set(names).size;
+    if (fixedCount > placesPerDay) {
+      issues.push({
+        ruleId: 'fixed-day-oversubscribed',
+        severity: 'error',
+        day,
+        message: `${plural(fixedCount, 'faculty member')} are fixed to ${dayLabel(day)}, but it only has ${plural(placesPerDay, 'invigilator place')} to give them.`,
+        suggestion: `Move ${fixedCount - placesPerDay} of them to another day, or add rooms or invigilators per room.`
+      });
+    }
+  });
+
+  faculty.forEach(f => {
+    const fixedDays = constraints.filter(c => c.facultyName === f.name).length;
+    const personalCap = getPersonalCap(f);
+    if (personalCap === 0) return; // Already reported as fixed-exempt
+
+    // A personal cap is never exceeded; a rank or fair-share cap only when unavoidable
+    const cap = personalCap ?? limits.maxDutiesPerFaculty.get(f.name)!;
+    if (fixedDays > cap) {
+      issues.push({
+        ruleId: 'fixed-above-cap',
+        severity: personalCap !== undefined ? 'error' : 'warning',
+        person: f.name,
+        message: `${f.name} is fixed to ${plural(fixedDays, 'day')} but may only take ${plural(cap, 'duty')}.`,
+        suggestion: `Remove some of ${f.name}'s fixed days or raise their cap.`
+      });
+    }
+  });
+
+  return {
+    feasible: !issues.some(issue => issue.severity === 'error'),
+    issues,
+    dayCapacity,
+    totalPositions,
+    totalPersonSlots
+  };
+}
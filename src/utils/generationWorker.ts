@@ -0,0 +1,30 @@
+import { runEngine } from './engines';
+import { ScheduleSolverError } from './constraintSolver';
+import { generateBestOf } from './fairness';
+import type { GenerationMessage, GenerationRequest } from './backgroundGeneration';
+
+// Worker entry point: runs one generation request, posting progress until the result
+const post = (message: GenerationMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<GenerationRequest>) => {
+  const { engine, faculty, staff, options, candidates, scoring } = event.data;
+  try {
+    const best = generateBestOf(
+      candidates,
+      (seed, candidate) => runEngine(engine, faculty, staff, {
+        ...options,
+        seed,
+        onProgress: progress => post({ type: 'progress', progress: { ...progress, candidate, candidates } })
+      }),
+      scoring,
+      options.seed
+    );
+    post({ type: 'done', candidates: best });
+  } catch (error) {
+    if (error instanceof ScheduleSolverError) {
+      post({ type: 'solver-error', reason: error.reason, details: error.details });
+    } else {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+};
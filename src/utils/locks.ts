@@ -0,0 +1,42 @@
+import { AssignmentRef, Schedule, ScheduleLocks, SlotRef } from '../types';
+
+export const EMPTY_LOCKS: ScheduleLocks = { entries: [], assignments: [] };
+
+const sameSlot = (a: SlotRef, b: SlotRef) => a.day === b.day && a.session === b.session && a.room === b.room;
+const sameAssignment = (a: AssignmentRef, b: AssignmentRef) => sameSlot(a, b) && a.name === b.name;
+
+export function isEntryLocked(locks: ScheduleLocks, slot: SlotRef): boolean {
+  return locks.entries.some(locked => sameSlot(locked, slot));
+}
+
+// A person is locked in place on their own, or with the whole room
+export function isAssignmentLocked(locks: ScheduleLocks, ref: AssignmentRef): boolean {
+  return isEntryLocked(locks, ref) || locks.assignments.some(locked => sameAssignment(locked, ref));
+}
+
+export function toggleEntryLock(locks: ScheduleLocks, slot: SlotRef): ScheduleLocks {
+  const { day, session, room } = slot;
+  return isEntryLocked(locks, slot)
+    ? { ...locks, entries: locks.entries.filter(locked => !sameSlot(locked, slot)) }
+    : { ...locks, entries: [...locks.entries, { day, session, room }] };
+}
+
+export function toggleAssignmentLock(locks: ScheduleLocks, ref: AssignmentRef): ScheduleLocks {
+  const { day, session, room, name } = ref;
+  return locks.assignments.some(locked => sameAssignment(locked, ref))
+    ? { ...locks, assignments: locks.assignments.filter(locked => !sameAssignment(locked, ref)) }
+    : { ...locks, assignments: [...locks.assignments, { day, session, room, name }] };
+}
+
+// The places a regeneration must keep: everyone in a locked room, plus locked people
+// who are still where they were locked (a later edit may have moved them)
+export function getLockedAssignments(schedule: Schedule, locks: ScheduleLocks): AssignmentRef[] {
+  const locked: AssignmentRef[] = [];
+  schedule.entries.forEach(entry => {
+    entry.invigilators.forEach(({ person }) => {
+      const ref = { day: entry.day, session: entry.session, room: entry.room, name: person.name };
+      if (isAssignmentLocked(locks, ref)) locked.push(ref);
+    });
+  });
+  return locked;
+}
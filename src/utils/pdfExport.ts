@@ -0,0 +1,326 @@
+import { jsPDF } from 'jspdf';
+import { DocumentSettings, ExamDay, Person, Room, Schedule } from '../types';
+import { getSessionLabel, getSessionShortLabel } from './sessions';
+import { formatDayTitle, formatWeekday, getExamDay } from './calendar';
+import { getRoomRowCount } from './rooms';
+import hindRegularUrl from '@expo-google-fonts/hind/400Regular/Hind_400Regular.ttf?url';
+import hindBoldUrl from '@expo-google-fonts/hind/700Bold/Hind_700Bold.ttf?url';
+
+const MARGIN = 12; // mm, all round
+const ROOM_COLUMN_WIDTH = 35;
+const MIN_COLUMN_WIDTH = 24; // Narrowest day/session column before the grid moves to another page
+const MAX_COLUMN_WIDTH = 40;
+const GRID_HEADER_HEIGHT = 7; // Each of the day and weekday rows
+const GRID_ROW_HEIGHT = 6; // One invigilator
+const SIGNATURE_HEIGHT = 22; // Kept free at the foot of every page
+const SIGNATURE_WIDTH = 60;
+
+// Hind covers Latin with its accents and Devanagari, so names print as they are written; the
+// built-in PDF fonts stop at Latin-1. The files are fetched on the first download.
+const FONT = 'Hind';
+const FONT_FILES: { style: 'normal' | 'bold'; file: string; url: string }[] = [
+  { style: 'normal', file: 'Hind-Regular.ttf', url: hindRegularUrl },
+  { style: 'bold', file: 'Hind-Bold.ttf', url: hindBoldUrl }
+];
+
+// Font files as base64, ready to embed
+export interface PdfFont {
+  style: 'normal' | 'bold';
+  file: string;
+  data: string;
+}
+
+let fontsLoading: Promise<PdfFont[]> | null = null;
+
+// Helper function to encode a font file as base64, a chunk at a time to keep the call stack small
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function loadPdfFonts(): Promise<PdfFont[]> {
+  fontsLoading ??= Promise.all(FONT_FILES.map(async ({ style, file, url }) => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`The font ${file} could not be loaded (${response.status})`);
+    return { style, file, data: toBase64(await response.arrayBuffer()) };
+  }));
+  // A failed load is tried again on the next download
+  fontsLoading.catch(() => { fontsLoading = null; });
+  return fontsLoading;
+}
+
+// Helper function to shrink text to fit a width, then cut it short with dots
+function fitText(doc: jsPDF, text: string, width: number, fontSize: number, minFontSize = 6): string {
+  let size = fontSize;
+  doc.setFontSize(size);
+  while (size > minFontSize && doc.getTextWidth(text) > width) {
+    size -= 0.5;
+    doc.setFontSize(size);
+  }
+  if (doc.getTextWidth(text) <= width) return text;
+  let cut = text;
+  while (cut.length > 1 && doc.getTextWidth(`${cut}...`) > width) cut = cut.slice(0, -1);
+  return `${cut}...`;
+}
+
+// Helper function to print the institute, exam and document title centred at the top;
+// returns where the body starts
+function drawHeader(doc: jsPDF, settings: DocumentSettings, title: string): number {
+  const centre = doc.internal.pageSize.getWidth() / 2;
+  let y = MARGIN + 4;
+  const line = (text: string, size: number, bold: boolean, gap: number) => {
+    if (!text.trim()) return;
+    doc.setFont(FONT, bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    doc.text(text.trim(), centre, y, { align: 'center' });
+    y += gap;
+  };
+  line(settings.institute, 15, true, 6);
+  line(settings.subtitle, 10, false, 5);
+  line(settings.examName, 11, true, 5.5);
+  line(title, 11, false, 4);
+  doc.setLineWidth(0.3);
+  doc.line(MARGIN, y, doc.internal.pageSize.getWidth() - MARGIN, y);
+  return y + 6;
+}
+
+// Helper function to print the signature line, name and designation at the bottom right
+function drawSignature(doc: jsPDF, settings: DocumentSettings) {
+  const right = doc.internal.pageSize.getWidth() - MARGIN;
+  const lineY = doc.internal.pageSize.getHeight() - MARGIN - 12;
+  const centre = right - SIGNATURE_WIDTH / 2;
+  doc.setLineWidth(0.2);
+  doc.line(right - SIGNATURE_WIDTH, lineY, right, lineY);
+  doc.setFontSize(9);
+  const name = settings.signatoryName.trim();
+  const title = settings.signatoryTitle.trim();
+  doc.setFont(FONT, 'bold');
+  doc.text(name || title || 'Authorised Signatory', centre, lineY + 4.5, { align: 'center' });
+  if (name && title) {
+    doc.setFont(FONT, 'normal');
+    doc.text(title, centre, lineY + 9, { align: 'center' });
+  }
+}
+
+// Helper function to split a list into runs whose sizes add up to no more than a limit;
+// an item larger than the limit gets a run of its own
+function chunkBySize<T>(items: T[], size: (item: T) => number, limit: number): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let used = 0;
+  items.forEach(item => {
+    if (current.length > 0 && used + size(item) > limit) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(item);
+    used += size(item);
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+// Helper function to print the grid, laid out like the schedule sheet: a column per day and
+// session, each room spanning one row per invigilator. Days and rooms that do not fit move
+// to further pages, never splitting a day or a room.
+function drawScheduleGrid(doc: jsPDF, schedule: Schedule, settings: DocumentSettings) {
+  const sessions = schedule.sessionsPerDay;
+  const examDays: ExamDay[] = Array.from({ length: schedule.days }, (_, i) => getExamDay(schedule.calendar, i + 1));
+  const roomRows = (room: Room) => getRoomRowCount(room, schedule.entries);
+  const namesAt = new Map<string, string[]>();
+  schedule.entries.forEach(entry => {
+    namesAt.set(`${entry.day}:${entry.session}:${entry.room}`, entry.invigilators.map(i => i.person.name));
+  });
+
+  let first = true;
+  const addPage = (): number => {
+    if (!first) doc.addPage('a4', 'landscape');
+    first = false;
+    const top = drawHeader(doc, settings, 'Invigilation Duty Roster');
+    drawSignature(doc, settings);
+    return top;
+  };
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const gridWidth = pageWidth - 2 * MARGIN - ROOM_COLUMN_WIDTH;
+  const daysPerPage = Math.max(1, Math.floor(gridWidth / MIN_COLUMN_WIDTH / sessions));
+  const columnWidth = Math.min(MAX_COLUMN_WIDTH, gridWidth / (Math.min(daysPerPage, examDays.length) * sessions));
+
+  for (let start = 0; start < examDays.length; start += daysPerPage) {
+    const pageDays = examDays.slice(start, start + daysPerPage);
+    // Measure the room rows that fit below a header on a fresh page
+    const top = addPage();
+    const bodyHeight = doc.internal.pageSize.getHeight() - MARGIN - SIGNATURE_HEIGHT - top - 2 * GRID_HEADER_HEIGHT;
+    const roomChunks = chunkBySize(schedule.rooms, room => roomRows(room) * GRID_ROW_HEIGHT, bodyHeight);
+
+    roomChunks.forEach((pageRooms, chunkIndex) => {
+      const y0 = chunkIndex === 0 ? top : addPage();
+      const columnX = (dayIndex: number, session: number) =>
+        MARGIN + ROOM_COLUMN_WIDTH + (dayIndex * sessions + session - 1) * columnWidth;
+      const cell = (x: number, y: number, w: number, h: number, text: string, bold = false, size = 8) => {
+        doc.setLineWidth(0.2);
+        doc.rect(x, y, w, h);
+        if (!text) return;
+        doc.setFont(FONT, bold ? 'bold' : 'normal');
+        const fitted = fitText(doc, text, w - 2, size);
+        doc.text(fitted, x + w / 2, y + h / 2, { align: 'center', baseline: 'middle' });
+      };
+
+      // Day row merged over the sessions, then the weekday and session row
+      cell(MARGIN, y0, ROOM_COLUMN_WIDTH, 2 * GRID_HEADER_HEIGHT, 'Date&Day/Classroom', true);
+      pageDays.forEach((examDay, dayIndex) => {
+        cell(columnX(dayIndex, 1), y0, columnWidth * sessions, GRID_HEADER_HEIGHT, formatDayTitle(examDay), true);
+        const weekday = formatWeekday(examDay);
+        for (let session = 1; session <= sessions; session++) {
+          const sessionLabel = getSessionShortLabel(session);
+          const label = sessions > 1 ? (weekday ? `${weekday} (${sessionLabel})` : sessionLabel) : weekday;
+          cell(columnX(dayIndex, session), y0 + GRID_HEADER_HEIGHT, columnWidth, GRID_HEADER_HEIGHT, label);
+        }
+      });
+
+      let y = y0 + 2 * GRID_HEADER_HEIGHT;
+      pageRooms.forEach(room => {
+        const rows = roomRows(room);
+        cell(MARGIN, y, ROOM_COLUMN_WIDTH, rows * GRID_ROW_HEIGHT, room.name, true);
+        pageDays.forEach((examDay, dayIndex) => {
+          for (let session = 1; session <= sessions; session++) {
+            const names = namesAt.get(`${examDay.day}:${session}:${room.id}`) ?? [];
+            for (let row = 0; row < rows; row++) {
+              cell(columnX(dayIndex, session), y + row * GRID_ROW_HEIGHT, columnWidth, GRID_ROW_HEIGHT, names[row] ?? '');
+            }
+          }
+        });
+        y += rows * GRID_ROW_HEIGHT;
+      });
+    });
+  }
+}
+
+// One duty of a person, as listed in their letter
+interface LetterDuty {
+  day: number;
+  session: number;
+  room: Room | undefined;
+  others: string[]; // Co-invigilators in the room
+}
+
+// Helper function to print a person's duty letter, continuing on further pages if needed
+function drawDutyLetter(doc: jsPDF, schedule: Schedule, settings: DocumentSettings, person: Person, duties: LetterDuty[]) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const bottom = doc.internal.pageSize.getHeight() - MARGIN - SIGNATURE_HEIGHT;
+  const newPage = (): number => {
+    doc.addPage('a4', 'portrait');
+    drawSignature(doc, settings);
+    return drawHeader(doc, settings, 'Invigilation Duty Letter');
+  };
+
+  let y = newPage();
+  doc.setFont(FONT, 'normal');
+  doc.setFontSize(10);
+  doc.text('To,', MARGIN, y);
+  doc.setFont(FONT, 'bold');
+  doc.text(person.name, MARGIN, y + 5);
+  doc.setFont(FONT, 'normal');
+  doc.text(person.rank || (person.type === 'faculty' ? 'Faculty' : 'Staff'), MARGIN, y + 10);
+  y += 18;
+
+  const exam = settings.examName.trim() || 'the examinations';
+  const intro = doc.splitTextToSize(
+    `You have been assigned the following ${duties.length === 1 ? 'invigilation duty' : `${duties.length} invigilation duties`} for ${exam}. Please report to the examination room before the session begins.`,
+    pageWidth - 2 * MARGIN
+  ) as string[];
+  doc.text(intro, MARGIN, y);
+  y += intro.length * 5 + 4;
+
+  // Date | Day | Session | Room | Co-invigilators; the session only when there is more than one
+  const columns: { title: string; width: number; value: (duty: LetterDuty) => string }[] = [
+    { title: 'Date', width: 30, value: duty => formatDayTitle(getExamDay(schedule.calendar, duty.day)) },
+    { title: 'Day', width: 24, value: duty => formatWeekday(getExamDay(schedule.calendar, duty.day)) },
+    ...(schedule.sessionsPerDay > 1
+      ? [{ title: 'Session', width: 22, value: (duty: LetterDuty) => getSessionLabel(duty.session) }]
+      : []),
+    {
+      title: 'Room',
+      width: 40,
+      value: duty => duty.room
+        ? [duty.room.name, duty.room.building, duty.room.floor && `Floor ${duty.room.floor}`].filter(Boolean).join(', ')
+        : ''
+    }
+  ];
+  const usedWidth = columns.reduce((sum, column) => sum + column.width, 0);
+  columns.push({ title: 'Co-invigilators', width: pageWidth - 2 * MARGIN - usedWidth, value: duty => duty.others.join(', ') || '-' });
+
+  const drawRow = (values: string[], bold: boolean): void => {
+    doc.setFont(FONT, bold ? 'bold' : 'normal');
+    doc.setFontSize(9);
+    const lines = values.map((value, index) => doc.splitTextToSize(value, columns[index].width - 3) as string[]);
+    const height = Math.max(...lines.map(l => l.length)) * 4.2 + 3;
+    if (y + height > bottom) {
+      y = newPage();
+      if (!bold) drawRow(columns.map(column => column.title), true);
+      doc.setFont(FONT, bold ? 'bold' : 'normal');
+      doc.setFontSize(9);
+    }
+    let x = MARGIN;
+    doc.setLineWidth(0.2);
+    lines.forEach((cellLines, index) => {
+      doc.rect(x, y, columns[index].width, height);
+      doc.text(cellLines, x + 1.5, y + 4.5);
+      x += columns[index].width;
+    });
+    y += height;
+  };
+
+  drawRow(columns.map(column => column.title), true);
+  duties.forEach(duty => drawRow(columns.map(column => column.value(duty)), false));
+}
+
+// The roster grid on landscape pages, then a portrait duty letter for each person with
+// duties, faculty first and then staff, each by name
+export function buildSchedulePdf(schedule: Schedule, settings: DocumentSettings, fonts: PdfFont[]): jsPDF {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  fonts.forEach(font => {
+    doc.addFileToVFS(font.file, font.data);
+    doc.addFont(font.file, FONT, font.style);
+  });
+  drawScheduleGrid(doc, schedule, settings);
+
+  const duties = new Map<string, { person: Person; duties: LetterDuty[] }>();
+  const sorted = [...schedule.entries].sort((a, b) => a.day - b.day || a.session - b.session || a.room - b.room);
+  sorted.forEach(entry => {
+    const room = schedule.rooms.find(r => r.id === entry.room);
+    entry.invigilators.forEach(({ person }) => {
+      const key = `${person.type}:${person.name}`;
+      if (!duties.has(key)) duties.set(key, { person, duties: [] });
+      duties.get(key)!.duties.push({
+        day: entry.day,
+        session: entry.session,
+        room,
+        others: entry.invigilators.map(i => i.person.name).filter(name => name !== person.name)
+      });
+    });
+  });
+
+  [...duties.values()]
+    .sort((a, b) => Number(a.person.type === 'staff') - Number(b.person.type === 'staff') || a.person.name.localeCompare(b.person.name))
+    .forEach(letter => drawDutyLetter(doc, schedule, settings, letter.person, letter.duties));
+
+  // Number the pages once they are all laid out
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont(FONT, 'normal');
+    doc.setFontSize(8);
+    doc.text(`Page ${page} of ${pages}`, doc.internal.pageSize.getWidth() / 2, doc.internal.pageSize.getHeight() - MARGIN / 2, { align: 'center' });
+  }
+  return doc;
+}
+
+export async function downloadSchedulePdf(schedule: Schedule, settings: DocumentSettings, fileName = 'examination-schedule.pdf') {
+  buildSchedulePdf(schedule, settings, await loadPdfFonts()).save(fileName);
+}
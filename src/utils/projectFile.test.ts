@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { buildProjectFile, parseProjectFile, ProjectFileError } from './projectFile';
+import { generateSchedule } from './scheduleGenerator';
+import { DEFAULT_WORKSPACE, Workspace } from './workspace';
+
+const faculty = [
+  { name: 'Asha Rao', type: 'faculty' as const, rank: 'Professor' },
+  { name: 'Vikram Sen', type: 'faculty' as const },
+  { name: 'Meera Iyer', type: 'faculty' as const, maxDuties: 2 }
+];
+const staff = [{ name: 'Ravi Kumar', type: 'staff' as const }];
+
+const workspace: Workspace = {
+  ...DEFAULT_WORKSPACE,
+  fileName: 'roster.xlsx',
+  faculty,
+  staff,
+  days: 3,
+  rooms: DEFAULT_WORKSPACE.rooms.slice(0, 1),
+  constraints: [{ facultyName: 'Asha Rao', day: 2, note: 'Paper setter' }],
+  unavailability: [{ personName: 'Ravi Kumar', personType: 'staff', fromDay: 1, toDay: 1 }],
+  seedInput: '42',
+  schedule: generateSchedule(faculty, staff, { days: 3, rooms: DEFAULT_WORKSPACE.rooms.slice(0, 1), seed: 42 })
+};
+
+const roundTrip = (data: Workspace) => parseProjectFile(JSON.stringify(buildProjectFile('Mid-semester', data)));
+
+describe('project files', () => {
+  it('opens what it saves', () => {
+    expect(roundTrip(workspace)).toEqual({ name: 'Mid-semester', workspace });
+  });
+
+  it('leaves out fixed days and leave that no longer fit the roster or the exam days', () => {
+    const stale: Workspace = {
+      ...workspace,
+      constraints: [
+        ...workspace.constraints,
+        { facultyName: 'Former Member', day: 1 },
+        { facultyName: 'Vikram Sen', day: 5 }
+      ],
+      unavailability: [
+        ...workspace.unavailability,
+        { personName: 'Former Member', personType: 'faculty', fromDay: 1, toDay: 2 },
+        { personName: 'Vikram Sen', personType: 'staff', fromDay: 1, toDay: 1 },
+        { personName: 'Meera Iyer', personType: 'faculty', fromDay: 4, toDay: 6 },
+        { personName: 'Vikram Sen', personType: 'faculty', fromDay: 2, toDay: 6 }
+      ]
+    };
+
+    expect(roundTrip(stale).workspace).toEqual({
+      ...workspace,
+      unavailability: [
+        ...workspace.unavailability,
+        { personName: 'Vikram Sen', personType: 'faculty', fromDay: 2, toDay: 3 }
+      ]
+    });
+  });
+
+  it('rejects a name listed as both faculty and staff', () => {
+    const file = buildProjectFile('Mid-semester', {
+      ...workspace,
+      staff: [...staff, { name: 'asha rao', type: 'staff' }]
+    });
+    let failure: unknown;
+    try {
+      parseProjectFile(JSON.stringify(file));
+    } catch (error) {
+      failure = error;
+    }
+    expect(failure).toBeInstanceOf(ProjectFileError);
+    expect((failure as ProjectFileError).details).toEqual([
+      'workspace: "asha rao" is listed more than once across faculty and staff'
+    ]);
+  });
+});
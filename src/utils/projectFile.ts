@@ -0,0 +1,281 @@
+import { getUsableConstraints } from './constraintImport';
+import { SCHEDULING_ENGINES } from './engines';
+import { MAX_CANDIDATES } from './fairness';
+import { DEFAULT_SESSION_TIMES, MAX_SESSIONS_PER_DAY } from './sessions';
+import { DEFAULT_DOCUMENT_SETTINGS, Workspace } from './workspace';
+
+// A whole workspace in a file, to hand a setup to a colleague
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string; // Session name
+  exportedAt: string; // ISO timestamp
+  workspace: Workspace;
+}
+
+export const PROJECT_FORMAT = 'exam-duty-project';
+export const PROJECT_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = '.examduty.json';
+
+// Upgrades from each older version to the next: MIGRATIONS[0] turns version 1 into 2, and
+// so on. Add one whenever the format changes, so that older files keep opening.
+const MIGRATIONS: ((project: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // 2 adds the institute details printed on PDFs
+  project => ({
+    ...project,
+    workspace: isRecord(project.workspace)
+      ? { ...project.workspace, documentSettings: DEFAULT_DOCUMENT_SETTINGS }
+      : project.workspace
+  }),
+  // 3 adds session timings for calendar export
+  project => ({
+    ...project,
+    workspace: isRecord(project.workspace)
+      ? { ...project.workspace, sessionTimes: DEFAULT_SESSION_TIMES }
+      : project.workspace
+  })
+];
+
+// Thrown when a file cannot be opened; the details say what is wrong and where
+export class ProjectFileError extends Error {
+  constructor(message: string, public readonly details: string[] = []) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+// Schema checks, each reporting problems at a path such as "workspace.faculty[2].name"
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text: Check = (value, path, errors) => {
+  if (typeof value !== 'string') errors.push(`${path} must be text`);
+};
+
+const nonEmptyText: Check = (value, path, errors) => {
+  if (typeof value !== 'string' || !value.trim()) errors.push(`${path} must be non-empty text`);
+};
+
+const flag: Check = (value, path, errors) => {
+  if (typeof value !== 'boolean') errors.push(`${path} must be true or false`);
+};
+
+const wholeNumber = (min: number, max = Number.MAX_SAFE_INTEGER): Check => (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    errors.push(`${path} must be a whole number${max === Number.MAX_SAFE_INTEGER ? ` of at least ${min}` : ` from ${min} to ${max}`}`);
+  }
+};
+
+const oneOf = (options: readonly string[]): Check => (value, path, errors) => {
+  if (typeof value !== 'string' || !options.includes(value)) {
+    errors.push(`${path} must be one of ${options.map(option => `"${option}"`).join(', ')}`);
+  }
+};
+
+const clockTime: Check = (value, path, errors) => {
+  if (typeof value !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) {
+    errors.push(`${path} must be a time written HH:MM`);
+  }
+};
+
+const optional = (check: Check): Check => (value, path, errors) => {
+  if (value !== undefined) check(value, path, errors);
+};
+
+const nullable = (check: Check): Check => (value, path, errors) => {
+  if (value !== null) check(value, path, errors);
+};
+
+const listOf = (check: Check): Check => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list`);
+    return;
+  }
+  value.forEach((item, index) => check(item, `${path}[${index}]`, errors));
+};
+
+const record = (shape: Record<string, Check>): Check => (value, path, errors) => {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  Object.entries(shape).forEach(([key, check]) => check(value[key], `${path}.${key}`, errors));
+};
+
+const person = record({
+  name: nonEmptyText,
+  type: oneOf(['faculty', 'staff']),
+  rank: optional(text),
+  maxDuties: optional(wholeNumber(0)),
+  minDuties: optional(wholeNumber(0)),
+  exempt: optional(flag)
+});
+
+const room = record({
+  id: wholeNumber(1),
+  name: text,
+  building: optional(text),
+  floor: optional(text),
+  capacity: optional(wholeNumber(0)),
+  invigilators: wholeNumber(1),
+  requiresFaculty: flag
+});
+
+const slot = { day: wholeNumber(1), session: wholeNumber(1), room: wholeNumber(1) };
+
+const schedule = record({
+  entries: listOf(record({
+    invigilators: listOf(record({ person, role: oneOf(['lead', 'assistant']) })),
+    ...slot
+  })),
+  facultyDuties: listOf(record({ name: text, count: wholeNumber(0) })),
+  staffDuties: listOf(record({ name: text, count: wholeNumber(0) })),
+  seed: wholeNumber(0),
+  days: wholeNumber(1),
+  calendar: listOf(record({ day: wholeNumber(1), date: optional(text) })),
+  sessionsPerDay: wholeNumber(1, MAX_SESSIONS_PER_DAY),
+  oneSessionPerDay: flag,
+  rooms: listOf(room)
+});
+
+const workspace = record({
+  fileName: nullable(text),
+  faculty: listOf(person),
+  staff: listOf(person),
+  constraints: listOf(record({ facultyName: nonEmptyText, day: wholeNumber(1), note: optional(text) })),
+  unavailability: listOf(record({
+    personName: nonEmptyText,
+    personType: oneOf(['faculty', 'staff']),
+    fromDay: wholeNumber(1),
+    toDay: wholeNumber(1),
+    note: optional(text)
+  })),
+  days: wholeNumber(1),
+  startDate: text,
+  holidays: listOf(text),
+  skipSundays: flag,
+  rooms: listOf(room),
+  rankRules: listOf(record({ rank: text, level: wholeNumber(1), maxDuties: nullable(wholeNumber(0)) })),
+  sessionsPerDay: wholeNumber(1, MAX_SESSIONS_PER_DAY),
+  oneSessionPerDay: flag,
+  sessionTimes: listOf(record({ start: clockTime, end: clockTime })),
+  seedInput: text,
+  engine: oneOf(SCHEDULING_ENGINES.map(option => option.id)),
+  candidateCount: wholeNumber(1, MAX_CANDIDATES),
+  schedule: nullable(schedule),
+  locks: record({
+    entries: listOf(record(slot)),
+    assignments: listOf(record({ ...slot, name: text }))
+  }),
+  baseline: nullable(schedule),
+  documentSettings: record({
+    institute: text,
+    subtitle: text,
+    examName: text,
+    signatoryName: text,
+    signatoryTitle: text
+  })
+});
+
+// Helper function to check that names are unique and constraints refer to people and days that exist
+function checkReferences(data: Workspace, errors: string[]) {
+  const faculty = new Set(data.faculty.map(p => p.name));
+  const staff = new Set(data.staff.map(p => p.name));
+
+  // People are told apart by name, as the roster import guarantees
+  const seen = new Set<string>();
+  [...data.faculty, ...data.staff].forEach(p => {
+    const key = p.name.toLowerCase();
+    if (seen.has(key)) errors.push(`workspace: "${p.name}" is listed more than once across faculty and staff`);
+    seen.add(key);
+  });
+
+  data.constraints.forEach((c, index) => {
+    const path = `workspace.constraints[${index}]`;
+    if (!faculty.has(c.facultyName)) errors.push(`${path}: "${c.facultyName}" is not in the faculty list`);
+    if (c.day > data.days) errors.push(`${path}: day ${c.day} is after the last exam day (${data.days})`);
+  });
+
+  data.unavailability.forEach((u, index) => {
+    const path = `workspace.unavailability[${index}]`;
+    if (!(u.personType === 'faculty' ? faculty : staff).has(u.personName)) {
+      errors.push(`${path}: "${u.personName}" is not in the ${u.personType} list`);
+    }
+    if (u.fromDay > u.toDay) errors.push(`${path}: starts after it ends`);
+    if (u.toDay > data.days) errors.push(`${path}: day ${u.toDay} is after the last exam day (${data.days})`);
+  });
+
+  data.sessionTimes.forEach((time, index) => {
+    if (time.end <= time.start) errors.push(`workspace.sessionTimes[${index}]: ends before it starts`);
+  });
+
+  const roomIds = new Set<number>();
+  data.rooms.forEach((r, index) => {
+    if (roomIds.has(r.id)) errors.push(`workspace.rooms[${index}]: room id ${r.id} is used twice`);
+    roomIds.add(r.id);
+  });
+}
+
+// Fixed days and leave left over from an earlier roster or a longer exam are not written, so
+// every file exported passes checkReferences when it is opened again
+export function buildProjectFile(name: string, data: Workspace): ProjectFile {
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    workspace: { ...data, ...getUsableConstraints(data) }
+  };
+}
+
+// Read a project file, upgrading older versions first. Throws ProjectFileError listing
+// every problem found, so the file can be fixed in one go.
+export function parseProjectFile(contents: string): { name: string; workspace: Workspace } {
+  let project: unknown;
+  try {
+    project = JSON.parse(contents);
+  } catch (error) {
+    throw new ProjectFileError('The file is not valid JSON', [error instanceof Error ? error.message : String(error)]);
+  }
+
+  if (!isRecord(project) || project.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('This is not an exam duty project file');
+  }
+  const version = project.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('The project file has no valid format version');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(
+      `The project file was saved by a newer version of the app (format ${version}, this app reads up to ${PROJECT_VERSION})`
+    );
+  }
+
+  let upgraded: Record<string, unknown> = project;
+  for (let from = version; from < PROJECT_VERSION; from++) {
+    upgraded = MIGRATIONS[from - 1](upgraded);
+  }
+
+  const errors: string[] = [];
+  text(upgraded.name, 'name', errors);
+  workspace(upgraded.workspace, 'workspace', errors);
+  if (errors.length === 0) checkReferences(upgraded.workspace as Workspace, errors);
+  if (errors.length > 0) {
+    throw new ProjectFileError('The project file has problems', errors);
+  }
+
+  return { name: upgraded.name as string, workspace: upgraded.workspace as Workspace };
+}
+
+// Save the workspace as a project file named after the session
+export function downloadProjectFile(name: string, data: Workspace) {
+  const blob = new Blob([JSON.stringify(buildProjectFile(name, data), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'project'}${PROJECT_FILE_EXTENSION}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,38 @@
+// Pseudo-random number generator returning values in [0, 1), same contract as Math.random
+export type RandomSource = () => number;
+
+// Largest seed accepted from the UI; keeps seeds within unsigned 32-bit range
+export const MAX_SEED = 0xffffffff;
+
+// Mulberry32: small, fast and fully determined by its 32-bit seed
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fresh seed for runs where the user did not ask for a specific one
+export function generateSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+// Pick a random element using the supplied generator
+export function pickRandom<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// Fisher-Yates shuffle returning a new array
+export function shuffle<T>(items: T[], random: RandomSource): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
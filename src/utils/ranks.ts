@@ -0,0 +1,73 @@
+import { Person, RankRule } from '../types';
+
+// Default designations, most senior first
+export const DEFAULT_RANK_RULES: RankRule[] = [
+  { rank: 'Professor', level: 1, maxDuties: 2 },
+  { rank: 'Associate Professor', level: 2, maxDuties: 3 },
+  { rank: 'Assistant Professor', level: 3, maxDuties: null },
+  { rank: 'JRF', level: 4, maxDuties: null },
+  { rank: 'Lab Staff', level: 5, maxDuties: null },
+  { rank: 'Office Staff', level: 6, maxDuties: null }
+];
+
+const normaliseRank = (rank: string): string =>
+  rank.toLowerCase().replace(/\./g, ' ').replace(/\s+/g, ' ').trim();
+
+// Find the rule for a designation. Exact matches win; otherwise short forms such as
+// "Associate" or "Assoc. Prof" match the most senior rule whose words they abbreviate.
+export function findRankRule(rules: RankRule[], rank: string | undefined): RankRule | undefined {
+  if (!rank) return undefined;
+  const wanted = normaliseRank(rank);
+  if (!wanted) return undefined;
+
+  const byLevel = [...rules].sort((a, b) => a.level - b.level);
+  const exact = byLevel.find(rule => normaliseRank(rule.rank) === wanted);
+  if (exact) return exact;
+
+  const wantedWords = wanted.split(' ');
+  return byLevel.find(rule => {
+    const ruleWords = normaliseRank(rule.rank).split(' ');
+    return wantedWords.length <= ruleWords.length &&
+      wantedWords.every((word, i) => ruleWords[i].startsWith(word));
+  });
+}
+
+// True when at least one person's designation matches a rule, i.e. rank-based seniority applies
+export function hasRecognisedRanks(people: Person[], rules: RankRule[]): boolean {
+  return people.some(person => findRankRule(rules, person.rank) !== undefined);
+}
+
+// Seniority position of each person (0 = most senior): by rank level, then roster order.
+// People without a recognised rank come after everyone who has one.
+export function getSeniorityOrder(people: Person[], rules: RankRule[]): Map<string, number> {
+  const levelOf = (person: Person) => findRankRule(rules, person.rank)?.level ?? Number.MAX_SAFE_INTEGER;
+
+  const ordered = people
+    .map((person, index) => ({ person, index }))
+    .sort((a, b) => levelOf(a.person) - levelOf(b.person) || a.index - b.index);
+
+  return new Map(ordered.map(({ person }, position) => [person.name, position]));
+}
+
+// Orders people for the lead of a room, most senior first
+export type SeniorityComparator = (a: Person, b: Person) => number;
+
+// The generator's order within a room: faculty ahead of staff, then by seniority. People no
+// longer in the roster come after those who are.
+export function compareBySeniority(faculty: Person[], staff: Person[], rules: RankRule[]): SeniorityComparator {
+  const facultySeniority = getSeniorityOrder(faculty, rules);
+  const staffSeniority = getSeniorityOrder(staff, rules);
+  const rank = (person: Person): number => person.type === 'faculty'
+    ? facultySeniority.get(person.name) ?? facultySeniority.size
+    : facultySeniority.size + 1 + (staffSeniority.get(person.name) ?? staffSeniority.size);
+  return (a, b) => rank(a) - rank(b);
+}
+
+// Designations in the roster that no rule covers
+export function getUnmatchedRanks(people: Person[], rules: RankRule[]): string[] {
+  const unmatched = new Set<string>();
+  people.forEach(person => {
+    if (person.rank && !findRankRule(rules, person.rank)) unmatched.add(person.rank);
+  });
+  return Array.from(unmatched);
+}
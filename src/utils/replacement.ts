@@ -0,0 +1,191 @@
+import { Person, RankRule, Schedule, ScheduleEntry, UnavailabilityConstraint } from '../types';
+import { computeDutyLimits } from './dutyLimits';
+import { getSeniorityOrder } from './ranks';
+import { recomputeDutyCounts } from './scheduleEditing';
+import { getUnavailableDays, isUnavailableOn } from './unavailability';
+
+export interface ReplacementInput {
+  faculty: Person[];
+  staff: Person[];
+  unavailability: UnavailabilityConstraint[];
+  rankRules: RankRule[];
+}
+
+// One place that changed hands; added is null when nobody could be found for it
+export interface ReplacementChange {
+  day: number;
+  session: number;
+  room: number; // Room id
+  removed: string;
+  added: string | null;
+}
+
+export interface ReplacementResult {
+  schedule: Schedule;
+  changes: ReplacementChange[];
+  changedPeople: string[]; // Everyone other than the person replaced whose duties changed
+}
+
+// Stands in the place being refilled; recognised by identity, never by name
+const VACANCY: Person = { name: '', type: 'staff', exempt: true };
+
+// Take a person off every duty from a day onwards and find substitutes, leaving earlier days
+// untouched. Each place goes to someone free in that slot; failing that, someone already on
+// duty in the slot moves over and a free person takes their room instead. Among the options,
+// people whose duties have already changed come first, so as few people as possible are
+// disturbed; then people below their duty target or cap; then those with the fewest duties.
+export function replacePersonFrom(
+  schedule: Schedule,
+  dropout: Person,
+  fromDay: number,
+  input: ReplacementInput
+): ReplacementResult {
+  const { faculty, staff, unavailability, rankRules } = input;
+  const { name } = dropout;
+  const isDropout = (person: Person) => person.type === dropout.type && person.name === name;
+  const entries: ScheduleEntry[] = schedule.entries.map(entry => ({ ...entry, invigilators: [...entry.invigilators] }));
+  const people = [...faculty, ...staff].filter(p => !isDropout(p) && !p.exempt);
+
+  const unavailable = getUnavailableDays(unavailability);
+
+  const limits = computeDutyLimits(faculty, staff, {
+    days: schedule.days,
+    sessionsPerDay: schedule.sessionsPerDay,
+    oneSessionPerDay: schedule.oneSessionPerDay,
+    rooms: schedule.rooms,
+    rankRules,
+    unavailable
+  });
+  const softCap = (person: Person) => person.type === 'staff'
+    ? limits.staffTargets.get(person.name)!
+    : limits.maxDutiesPerFaculty.get(person.name)!;
+
+  const dutyCount = (person: string) =>
+    entries.reduce((sum, entry) => sum + (entry.invigilators.some(i => i.person.name === person) ? 1 : 0), 0);
+  const roomOf = (id: number) => schedule.rooms.find(room => room.id === id);
+
+  // Hard rules of the generator for putting a person into an entry
+  const canTake = (person: Person, entry: ScheduleEntry): boolean => {
+    if (isUnavailableOn(unavailable, person, entry.day)) return false;
+    const cap = limits.personalCaps.get(person.name);
+    if (cap !== undefined && dutyCount(person.name) >= cap) return false;
+    return !entries.some(other => other.invigilators.some(i => i.person.name === person.name) && (
+      (other.day === entry.day && (schedule.oneSessionPerDay || other.session === entry.session)) ||
+      (Math.abs(other.day - entry.day) === 1 && other.room === entry.room)
+    ));
+  };
+
+  // Whether a place is held by the given person, or is the vacancy
+  const holds = (holder: Person, person: Person): boolean =>
+    person === VACANCY ? holder === VACANCY : holder !== VACANCY && holder.name === person.name;
+
+  // A room that requires faculty must keep one
+  const needsFaculty = (entry: ScheduleEntry, leaving: Person): boolean =>
+    (roomOf(entry.room)?.requiresFaculty ?? false) &&
+    !entry.invigilators.some(i => i.person.type === 'faculty' && !holds(i.person, leaving));
+
+  const changedPeople = new Set<string>();
+  const preference = (candidate: Person, like: Person['type']): number[] => [
+    changedPeople.has(candidate.name) ? 0 : 1,
+    dutyCount(candidate.name) < softCap(candidate) ? 0 : 1,
+    candidate.type === like ? 0 : 1,
+    dutyCount(candidate.name)
+  ];
+  const byPreference = (like: Person['type']) => (a: Person, b: Person): number => {
+    const pa = preference(a, like);
+    const pb = preference(b, like);
+    for (let i = 0; i < pa.length; i++) if (pa[i] !== pb[i]) return pa[i] - pb[i];
+    return 0;
+  };
+
+  const swapIn = (entry: ScheduleEntry, leaving: Person, person: Person) => {
+    const index = entry.invigilators.findIndex(i => holds(i.person, leaving));
+    entry.invigilators[index] = { ...entry.invigilators[index], person };
+  };
+
+  const changes: ReplacementChange[] = [];
+  const affected = entries
+    .filter(entry => entry.day >= fromDay && entry.invigilators.some(i => isDropout(i.person)))
+    .sort((a, b) => a.day - b.day || a.session - b.session || a.room - b.room);
+
+  for (const entry of affected) {
+    const leaving = entry.invigilators.find(i => isDropout(i.person))!.person;
+    // Take them out first, so their own places do not block anyone
+    swapIn(entry, leaving, VACANCY);
+    const facultyOnly = needsFaculty(entry, VACANCY);
+    const record = (at: ScheduleEntry, removed: string, added: string | null) =>
+      changes.push({ day: at.day, session: at.session, room: at.room, removed, added });
+
+    // Someone free in this slot takes the place directly
+    const direct = people
+      .filter(p => (!facultyOnly || p.type === 'faculty') && canTake(p, entry))
+      .sort(byPreference(leaving.type))[0];
+    if (direct) {
+      swapIn(entry, VACANCY, direct);
+      changedPeople.add(direct.name);
+      record(entry, name, direct.name);
+      continue;
+    }
+
+    // Otherwise someone from another room in the slot moves over and a free person takes
+    // their room; this changes two people's duties, so it is only the fallback
+    const slotEntries = entries.filter(other =>
+      other !== entry && other.day === entry.day && other.session === entry.session
+    );
+    let moved = false;
+    for (const other of slotEntries) {
+      const movers = other.invigilators
+        .map(i => i.person)
+        .filter(p => !isDropout(p) && (!facultyOnly || p.type === 'faculty') && !needsFaculty(other, p))
+        .sort(byPreference(leaving.type));
+
+      for (const mover of movers) {
+        // Try the move, and look for someone to fill the room it empties
+        swapIn(other, mover, VACANCY);
+        if (canTake(mover, entry)) {
+          swapIn(entry, VACANCY, mover);
+          const filler = people
+            .filter(p => (!needsFaculty(other, VACANCY) || p.type === 'faculty') && canTake(p, other))
+            .sort(byPreference(mover.type))[0];
+          if (filler) {
+            swapIn(other, VACANCY, filler);
+            changedPeople.add(mover.name);
+            changedPeople.add(filler.name);
+            record(entry, name, mover.name);
+            record(other, mover.name, filler.name);
+            moved = true;
+            break;
+          }
+          swapIn(entry, mover, VACANCY);
+        }
+        swapIn(other, VACANCY, mover);
+      }
+      if (moved) break;
+    }
+    if (moved) continue;
+
+    // Nobody can take it without breaking a hard rule; the room is left a person short
+    entry.invigilators = entry.invigilators.filter(i => i.person !== VACANCY);
+    record(entry, name, null);
+  }
+
+  // Keep the most senior person in each changed room as its lead
+  const facultySeniority = getSeniorityOrder(faculty, rankRules);
+  const staffSeniority = getSeniorityOrder(staff, rankRules);
+  const seniorityRank = (person: Person): number =>
+    person.type === 'faculty'
+      ? facultySeniority.get(person.name) ?? 0
+      : facultySeniority.size + (staffSeniority.get(person.name) ?? 0);
+  const changedSlots = new Set(changes.map(c => `${c.day}/${c.session}/${c.room}`));
+  entries.forEach(entry => {
+    if (changedSlots.has(`${entry.day}/${entry.session}/${entry.room}`)) {
+      entry.invigilators.sort((a, b) => seniorityRank(a.person) - seniorityRank(b.person));
+    }
+  });
+
+  return {
+    schedule: recomputeDutyCounts(schedule, entries.filter(entry => entry.invigilators.length > 0)),
+    changes,
+    changedPeople: Array.from(changedPeople)
+  };
+}
@@ -0,0 +1,83 @@
+import { Room, ScheduleEntry } from '../types';
+import { readColumn } from './spreadsheet';
+
+export const DEFAULT_INVIGILATORS_PER_ROOM = 2;
+
+export function createDefaultRoom(id: number): Room {
+  return {
+    id,
+    name: `Room ${id}`,
+    invigilators: DEFAULT_INVIGILATORS_PER_ROOM,
+    requiresFaculty: true
+  };
+}
+
+export function createDefaultRooms(count: number): Room[] {
+  return Array.from({ length: count }, (_, i) => createDefaultRoom(i + 1));
+}
+
+// Grow or shrink a room list, keeping the settings of rooms that remain
+export function resizeRooms(rooms: Room[], count: number): Room[] {
+  if (count <= rooms.length) {
+    return rooms.slice(0, count);
+  }
+
+  const nextId = rooms.reduce((max, room) => Math.max(max, room.id), 0) + 1;
+  const added = Array.from({ length: count - rooms.length }, (_, i) => createDefaultRoom(nextId + i));
+  return [...rooms, ...added];
+}
+
+// Sheet in the uploaded workbook that optionally lists the exam rooms
+export const ROOMS_SHEET_NAME = 'Rooms';
+
+// Build rooms from the rows of a "Rooms" sheet (name, building, floor, capacity, invigilators)
+export function parseRoomsSheet(rows: Record<string, unknown>[]): Room[] {
+  const rooms: Room[] = [];
+
+  rows.forEach(row => {
+    const name = readColumn(row, ['Name', 'Room', 'Room Name', 'Classroom']);
+    if (!name) return;
+
+    const room = createDefaultRoom(rooms.length + 1);
+    room.name = name;
+
+    const building = readColumn(row, ['Building', 'Block']);
+    if (building) room.building = building;
+
+    const floor = readColumn(row, ['Floor']);
+    if (floor) room.floor = floor;
+
+    const capacity = parseInt(readColumn(row, ['Capacity', 'Seats']));
+    if (!isNaN(capacity)) room.capacity = capacity;
+
+    const invigilators = parseInt(readColumn(row, ['Invigilators']));
+    if (!isNaN(invigilators) && invigilators > 0) room.invigilators = invigilators;
+
+    rooms.push(room);
+  });
+
+  return rooms;
+}
+
+// Building and floor of a room, for display under its name
+export function getRoomLocation(room: Room): string {
+  return [room.building, room.floor && `Floor ${room.floor}`].filter(Boolean).join(', ');
+}
+
+export function getRoomName(rooms: Room[], id: number): string {
+  return rooms.find(room => room.id === id)?.name ?? `Room ${id}`;
+}
+
+// Rows a room takes in the exported grid: one per position, or more when an edit has put
+// extra people in the room in some slot, so that nobody is left out of the export
+export function getRoomRowCount(room: Room, entries: ScheduleEntry[]): number {
+  return entries.reduce(
+    (rows, entry) => entry.room === room.id ? Math.max(rows, entry.invigilators.length) : rows,
+    Math.max(1, room.invigilators)
+  );
+}
+
+// Names of everyone invigilating in an entry, lead first
+export function getInvigilatorNames(entry: ScheduleEntry): string[] {
+  return entry.invigilators.map(invigilator => invigilator.person.name);
+}
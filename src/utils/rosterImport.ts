@@ -0,0 +1,182 @@
+import { Person } from '../types';
+import { SheetIssue, columnLetter, normaliseHeader } from './spreadsheet';
+
+export interface Roster {
+  faculty: Person[];
+  staff: Person[];
+}
+
+export type RosterField =
+  | 'faculty' | 'staff'
+  | 'facultyRank' | 'facultyMaxDuties' | 'facultyMinDuties' | 'facultyExempt'
+  | 'staffRank' | 'staffMaxDuties' | 'staffMinDuties' | 'staffExempt'
+  | 'rank' | 'maxDuties' | 'minDuties' | 'exempt';
+
+// What can be read from a roster, with the headers recognised for each. Prefixed details
+// always apply; plain ones ("Rank", "MaxDuties", ...) only when a row names a single person.
+export const ROSTER_FIELDS: { id: RosterField; label: string; headers: string[] }[] = [
+  { id: 'faculty', label: 'Faculty name', headers: ['Faculty', 'Faculty Name', 'Name of Faculty', 'Faculty Member'] },
+  { id: 'staff', label: 'Staff name', headers: ['Staff', 'Staff Name', 'Name of Staff', 'Staff Member'] },
+  { id: 'facultyRank', label: 'Faculty designation', headers: ['Faculty Rank', 'Faculty Designation'] },
+  { id: 'facultyMaxDuties', label: 'Faculty max duties', headers: ['Faculty MaxDuties', 'Faculty Max Duties'] },
+  { id: 'facultyMinDuties', label: 'Faculty min duties', headers: ['Faculty MinDuties', 'Faculty Min Duties'] },
+  { id: 'facultyExempt', label: 'Faculty exempt', headers: ['Faculty Exempt'] },
+  { id: 'staffRank', label: 'Staff designation', headers: ['Staff Rank', 'Staff Designation'] },
+  { id: 'staffMaxDuties', label: 'Staff max duties', headers: ['Staff MaxDuties', 'Staff Max Duties'] },
+  { id: 'staffMinDuties', label: 'Staff min duties', headers: ['Staff MinDuties', 'Staff Min Duties'] },
+  { id: 'staffExempt', label: 'Staff exempt', headers: ['Staff Exempt'] },
+  { id: 'rank', label: 'Designation (one person per row)', headers: ['Rank', 'Designation'] },
+  { id: 'maxDuties', label: 'Max duties (one person per row)', headers: ['MaxDuties', 'Max Duties'] },
+  { id: 'minDuties', label: 'Min duties (one person per row)', headers: ['MinDuties', 'Min Duties'] },
+  { id: 'exempt', label: 'Exempt (one person per row)', headers: ['Exempt'] }
+];
+
+// Column index of each field in the sheet; unmapped fields are not read
+export type RosterMapping = Partial<Record<RosterField, number>>;
+
+export interface RosterImport extends Roster {
+  issues: SheetIssue[];
+}
+
+const EXEMPT_VALUES = ['yes', 'y', 'true', '1', 'x'];
+const HEADER_SEARCH_ROWS = 10;
+
+// Tidy a name as typed into a spreadsheet: no invisible characters, single spaces
+export function normalisePersonName(raw: string): string {
+  return raw.replace(/[\u200B-\u200D\uFEFF]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Helper function to find the field a header names exactly
+function matchField(header: string): RosterField | undefined {
+  const normalised = normaliseHeader(header);
+  return ROSTER_FIELDS.find(field => field.headers.some(h => normaliseHeader(h) === normalised))?.id;
+}
+
+// The header row is the first near the top that names a faculty or staff column; title
+// rows above it are ignored. Without one, the first row with any text is used.
+export function detectHeaderRow(rows: string[][]): number {
+  const limit = Math.min(rows.length, HEADER_SEARCH_ROWS);
+  for (let index = 0; index < limit; index++) {
+    if (rows[index].some(cell => {
+      const field = matchField(cell);
+      return field === 'faculty' || field === 'staff';
+    })) return index;
+  }
+  const firstFilled = rows.findIndex(row => row.some(cell => cell.trim()));
+  return firstFilled === -1 ? 0 : firstFilled;
+}
+
+// Map columns by their headers; a name column not named exactly is the first other
+// column whose header mentions faculty or staff (e.g. "Faculty Members (CSE)")
+export function guessRosterMapping(headers: string[]): RosterMapping {
+  const mapping: RosterMapping = {};
+  headers.forEach((header, column) => {
+    const field = matchField(header);
+    if (field && mapping[field] === undefined) mapping[field] = column;
+  });
+
+  const used = new Set(Object.values(mapping));
+  (['faculty', 'staff'] as const).forEach(field => {
+    if (mapping[field] !== undefined) return;
+    const column = headers.findIndex((header, index) =>
+      !used.has(index) && normaliseHeader(header).includes(field)
+    );
+    if (column !== -1) {
+      mapping[field] = column;
+      used.add(column);
+    }
+  });
+
+  return mapping;
+}
+
+// Build the faculty and staff lists from the rows below the header row. Names are tidied;
+// rows without a name, repeated names and people in both lists are skipped and reported,
+// as are details that cannot be read.
+export function parseRoster(rows: string[][], headerRow: number, mapping: RosterMapping): RosterImport {
+  const faculty: Person[] = [];
+  const staff: Person[] = [];
+  const issues: SheetIssue[] = [];
+  const firstRow = new Map<string, number>(); // "type:name" in lower case -> row number
+
+  const readPerson = (cells: string[], rowNumber: number, type: Person['type'], singlePerson: boolean) => {
+    const cell = (field: RosterField | undefined) => {
+      const column = field === undefined ? undefined : mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+    const name = normalisePersonName(cell(type));
+    if (!name) return;
+
+    const key = `${type}:${name.toLowerCase()}`;
+    if (firstRow.has(key)) {
+      issues.push({ row: rowNumber, message: `${name} is listed again as ${type} (first on row ${firstRow.get(key)}), skipped` });
+      return;
+    }
+    firstRow.set(key, rowNumber);
+
+    const read = (detail: 'Rank' | 'MaxDuties' | 'MinDuties' | 'Exempt'): string => {
+      const plain = (detail.charAt(0).toLowerCase() + detail.slice(1)) as RosterField;
+      return cell(`${type}${detail}` as RosterField) || (singlePerson ? cell(plain) : '');
+    };
+    const readCount = (detail: 'MaxDuties' | 'MinDuties', label: string): number | undefined => {
+      const value = read(detail);
+      if (!value) return undefined;
+      const count = Number(value);
+      if (Number.isInteger(count) && count >= 0) return count;
+      issues.push({ row: rowNumber, message: `${label} "${value}" for ${name} is not a whole number, ignored` });
+      return undefined;
+    };
+
+    const person: Person = { name, type };
+    const rank = read('Rank');
+    if (rank) person.rank = rank;
+    const maxDuties = readCount('MaxDuties', 'Max duties');
+    if (maxDuties !== undefined) person.maxDuties = maxDuties;
+    const minDuties = readCount('MinDuties', 'Min duties');
+    if (minDuties !== undefined) person.minDuties = minDuties;
+    if (EXEMPT_VALUES.includes(read('Exempt').toLowerCase())) person.exempt = true;
+
+    (type === 'faculty' ? faculty : staff).push(person);
+  };
+
+  rows.slice(headerRow + 1).forEach((cells, offset) => {
+    if (!cells.some(cell => cell.trim())) return;
+    const rowNumber = headerRow + offset + 2;
+
+    const named = (field: 'faculty' | 'staff') =>
+      mapping[field] !== undefined && normalisePersonName(cells[mapping[field]!] ?? '') !== '';
+    const hasFaculty = named('faculty');
+    const hasStaff = named('staff');
+    if (!hasFaculty && !hasStaff) {
+      issues.push({ row: rowNumber, message: 'No faculty or staff name, skipped' });
+      return;
+    }
+
+    // Plain detail columns cannot say whose they are on a row naming two people
+    if (hasFaculty && hasStaff) {
+      (['rank', 'maxDuties', 'minDuties', 'exempt'] as const).forEach(field => {
+        const column = mapping[field];
+        if (column !== undefined && (cells[column] ?? '').trim()) {
+          const header = rows[headerRow]?.[column]?.trim() || columnLetter(column);
+          issues.push({ row: rowNumber, message: `"${header}" is read only on rows naming one person; map it to a faculty or staff field, ignored` });
+        }
+      });
+    }
+
+    if (hasFaculty) readPerson(cells, rowNumber, 'faculty', !hasStaff);
+    if (hasStaff) readPerson(cells, rowNumber, 'staff', !hasFaculty);
+  });
+
+  // Someone in both columns is almost always a copy-paste slip; they stay faculty
+  const facultyNames = new Set(faculty.map(p => p.name.toLowerCase()));
+  const keptStaff = staff.filter(person => {
+    if (!facultyNames.has(person.name.toLowerCase())) return true;
+    issues.push({
+      row: firstRow.get(`staff:${person.name.toLowerCase()}`)!,
+      message: `${person.name} is in both the faculty and staff lists, kept as faculty only`
+    });
+    return false;
+  });
+
+  return { faculty, staff: keptStaff, issues: issues.sort((a, b) => a.row - b.row) };
+}
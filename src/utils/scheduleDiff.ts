@@ -0,0 +1,106 @@
+import { Person, Schedule, SlotRef } from '../types';
+import { formatDayLabel, getExamDay } from './calendar';
+import { getSessionShortLabel } from './sessions';
+import { getRoomName } from './rooms';
+
+export type DutyChangeKind = 'added' | 'removed' | 'room-changed' | 'day-changed';
+
+// One duty that differs between two versions of a schedule
+export interface DutyChange {
+  kind: DutyChangeKind;
+  before?: SlotRef; // Missing for an added duty
+  after?: SlotRef; // Missing for a removed duty
+}
+
+export interface PersonDiff {
+  name: string;
+  type: Person['type'];
+  dutiesBefore: number;
+  dutiesAfter: number;
+  changes: DutyChange[];
+}
+
+export const DUTY_CHANGE_LABELS: Record<DutyChangeKind, string> = {
+  'added': 'New duty',
+  'removed': 'Duty cancelled',
+  'room-changed': 'Room changed',
+  'day-changed': 'Day changed'
+};
+
+// Day, session (when there is more than one) and room of a slot, as shown to people
+export function formatSlot(schedule: Schedule, slot: SlotRef): string {
+  const day = formatDayLabel(getExamDay(schedule.calendar, slot.day));
+  const session = schedule.sessionsPerDay > 1 ? ` ${getSessionShortLabel(slot.session)}` : '';
+  return `${day}${session}, ${getRoomName(schedule.rooms, slot.room)}`;
+}
+
+// Helper function to collect each person's duties in a schedule
+function dutiesByPerson(schedule: Schedule): Map<string, { person: Person; slots: SlotRef[] }> {
+  const duties = new Map<string, { person: Person; slots: SlotRef[] }>();
+  schedule.entries.forEach(entry => {
+    entry.invigilators.forEach(({ person }) => {
+      if (!duties.has(person.name)) duties.set(person.name, { person, slots: [] });
+      duties.get(person.name)!.slots.push({ day: entry.day, session: entry.session, room: entry.room });
+    });
+  });
+  duties.forEach(({ slots }) => slots.sort((a, b) => a.day - b.day || a.session - b.session || a.room - b.room));
+  return duties;
+}
+
+// Compare two versions person by person. Unchanged duties are left out; a duty in the same
+// slot but another room is a room change; remaining duties are paired in date order as day
+// changes, and whatever is left over was added or removed.
+export function diffSchedules(before: Schedule, after: Schedule): PersonDiff[] {
+  const dutiesBefore = dutiesByPerson(before);
+  const dutiesAfter = dutiesByPerson(after);
+  const names = new Set([...dutiesBefore.keys(), ...dutiesAfter.keys()]);
+  const diffs: PersonDiff[] = [];
+
+  names.forEach(name => {
+    const old = [...(dutiesBefore.get(name)?.slots ?? [])];
+    const current = [...(dutiesAfter.get(name)?.slots ?? [])];
+    const person = (dutiesAfter.get(name) ?? dutiesBefore.get(name))!.person;
+    const changes: DutyChange[] = [];
+
+    const take = (slots: SlotRef[], match: (slot: SlotRef) => boolean): SlotRef | undefined => {
+      const index = slots.findIndex(match);
+      return index === -1 ? undefined : slots.splice(index, 1)[0];
+    };
+
+    // Unchanged
+    [...old].forEach(slot => {
+      if (take(current, s => s.day === slot.day && s.session === slot.session && s.room === slot.room)) {
+        take(old, s => s === slot);
+      }
+    });
+
+    // Same slot, another room
+    [...old].forEach(slot => {
+      const moved = take(current, s => s.day === slot.day && s.session === slot.session);
+      if (moved) {
+        take(old, s => s === slot);
+        changes.push({ kind: 'room-changed', before: slot, after: moved });
+      }
+    });
+
+    // Moved to another day or session
+    while (old.length > 0 && current.length > 0) {
+      changes.push({ kind: 'day-changed', before: old.shift(), after: current.shift() });
+    }
+    old.forEach(slot => changes.push({ kind: 'removed', before: slot }));
+    current.forEach(slot => changes.push({ kind: 'added', after: slot }));
+
+    if (changes.length > 0) {
+      const firstDay = (change: DutyChange) => (change.before ?? change.after)!.day;
+      diffs.push({
+        name,
+        type: person.type,
+        dutiesBefore: dutiesBefore.get(name)?.slots.length ?? 0,
+        dutiesAfter: dutiesAfter.get(name)?.slots.length ?? 0,
+        changes: changes.sort((a, b) => firstDay(a) - firstDay(b))
+      });
+    }
+  });
+
+  return diffs.sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,166 @@
+import { AssignmentRef, DutyCount, Invigilator, Person, Schedule, ScheduleEntry, SlotRef } from '../types';
+import { getRoomName } from './rooms';
+import { SeniorityComparator } from './ranks';
+
+// Thrown when an edit would leave the schedule malformed (as opposed to merely breaking a rule,
+// which the validator reports)
+export class ScheduleEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleEditError';
+  }
+}
+
+// Helper function to find the entry for a room in a slot
+function findEntry(entries: ScheduleEntry[], slot: SlotRef): ScheduleEntry | undefined {
+  return entries.find(e => e.day === slot.day && e.session === slot.session && e.room === slot.room);
+}
+
+// Helper function to copy the entries so an edit never mutates the schedule it started from
+function cloneEntries(schedule: Schedule): ScheduleEntry[] {
+  return schedule.entries.map(entry => ({ ...entry, invigilators: [...entry.invigilators] }));
+}
+
+// Helper function to locate an assignment, failing loudly when the schedule has moved on
+function locate(entries: ScheduleEntry[], ref: AssignmentRef): { entry: ScheduleEntry; index: number } {
+  const entry = findEntry(entries, ref);
+  const index = entry ? entry.invigilators.findIndex(i => i.person.name === ref.name) : -1;
+  if (!entry || index === -1) {
+    throw new ScheduleEditError(`${ref.name} is no longer in that room`);
+  }
+  return { entry, index };
+}
+
+// Helper function to make the first invigilator of an entry its lead
+function withRoles(invigilators: Invigilator[]): Invigilator[] {
+  return invigilators.map((invigilator, index) => ({ ...invigilator, role: index === 0 ? 'lead' : 'assistant' }));
+}
+
+// Helper function to put the most senior person first in a room someone has joined, so that
+// they lead it as they would in a generated schedule
+function orderBySeniority(entry: ScheduleEntry, seniority: SeniorityComparator): void {
+  entry.invigilators.sort((a, b) => seniority(a.person, b.person));
+}
+
+// Helper function to reject a second place for the same person in one room
+function ensureNotInEntry(entry: ScheduleEntry, name: string): void {
+  if (entry.invigilators.some(i => i.person.name === name)) {
+    throw new ScheduleEditError(`${name} is already in that room`);
+  }
+}
+
+// Helper function to reject a person joining a room whose positions are all taken; swapping
+// or replacing someone in it is the way to change who is there
+function ensureRoomHasSpace(schedule: Schedule, entry: ScheduleEntry): void {
+  const room = schedule.rooms.find(r => r.id === entry.room);
+  if (room && entry.invigilators.length >= room.invigilators) {
+    throw new ScheduleEditError(
+      `${getRoomName(schedule.rooms, entry.room)} already has all ${room.invigilators} invigilators; drop onto someone there to swap or replace them`
+    );
+  }
+}
+
+// Recount duties from the entries, keeping everyone already listed (including those now at zero)
+export function recomputeDutyCounts(schedule: Schedule, entries: ScheduleEntry[] = schedule.entries): Schedule {
+  const counts = new Map<string, { count: number; type: Person['type'] }>();
+  schedule.facultyDuties.forEach(d => counts.set(d.name, { count: 0, type: 'faculty' }));
+  schedule.staffDuties.forEach(d => counts.set(d.name, { count: 0, type: 'staff' }));
+  entries.forEach(entry => {
+    entry.invigilators.forEach(({ person }) => {
+      if (!counts.has(person.name)) counts.set(person.name, { count: 0, type: person.type });
+      counts.get(person.name)!.count++;
+    });
+  });
+
+  const dutiesOf = (type: Person['type']): DutyCount[] => Array.from(counts.entries())
+    .filter(([, data]) => data.type === type)
+    .map(([name, data]) => ({ name, count: data.count }))
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    ...schedule,
+    entries: entries.map(entry => ({ ...entry, invigilators: withRoles(entry.invigilators) })),
+    facultyDuties: dutiesOf('faculty'),
+    staffDuties: dutiesOf('staff')
+  };
+}
+
+// Swap two people's places. Within a room this changes who leads it; across rooms both rooms
+// are put back in seniority order.
+export function swapAssignments(schedule: Schedule, a: AssignmentRef, b: AssignmentRef, seniority: SeniorityComparator): Schedule {
+  const entries = cloneEntries(schedule);
+  const first = locate(entries, a);
+  const second = locate(entries, b);
+  if (first.entry === second.entry) {
+    const invigilators = first.entry.invigilators;
+    [invigilators[first.index], invigilators[second.index]] = [invigilators[second.index], invigilators[first.index]];
+    return recomputeDutyCounts(schedule, entries);
+  }
+
+  ensureNotInEntry(second.entry, a.name);
+  ensureNotInEntry(first.entry, b.name);
+  const firstPerson = first.entry.invigilators[first.index].person;
+  first.entry.invigilators[first.index] = { ...first.entry.invigilators[first.index], person: second.entry.invigilators[second.index].person };
+  second.entry.invigilators[second.index] = { ...second.entry.invigilators[second.index], person: firstPerson };
+  orderBySeniority(first.entry, seniority);
+  orderBySeniority(second.entry, seniority);
+  return recomputeDutyCounts(schedule, entries);
+}
+
+// Give a person's place to someone else
+export function replaceAssignment(schedule: Schedule, ref: AssignmentRef, person: Person, seniority: SeniorityComparator): Schedule {
+  if (person.name === ref.name) return schedule;
+
+  const entries = cloneEntries(schedule);
+  const { entry, index } = locate(entries, ref);
+  ensureNotInEntry(entry, person.name);
+  entry.invigilators[index] = { ...entry.invigilators[index], person };
+  orderBySeniority(entry, seniority);
+  return recomputeDutyCounts(schedule, entries);
+}
+
+// Move a person from their room to another room, day or session
+export function moveAssignment(schedule: Schedule, ref: AssignmentRef, target: SlotRef, seniority: SeniorityComparator): Schedule {
+  const entries = cloneEntries(schedule);
+  const { entry, index } = locate(entries, ref);
+  if (entry.day === target.day && entry.session === target.session && entry.room === target.room) return schedule;
+
+  let targetEntry = findEntry(entries, target);
+  if (targetEntry) {
+    ensureNotInEntry(targetEntry, ref.name);
+  } else {
+    targetEntry = { invigilators: [], day: target.day, session: target.session, room: target.room };
+    entries.push(targetEntry);
+  }
+  ensureRoomHasSpace(schedule, targetEntry);
+
+  const [moved] = entry.invigilators.splice(index, 1);
+  targetEntry.invigilators.push(moved);
+  orderBySeniority(targetEntry, seniority);
+  return recomputeDutyCounts(schedule, entries.filter(e => e.invigilators.length > 0));
+}
+
+// Put a person into a room, in addition to whoever is there
+export function addAssignment(schedule: Schedule, target: SlotRef, person: Person, seniority: SeniorityComparator): Schedule {
+  const entries = cloneEntries(schedule);
+  let targetEntry = findEntry(entries, target);
+  if (targetEntry) {
+    ensureNotInEntry(targetEntry, person.name);
+  } else {
+    targetEntry = { invigilators: [], day: target.day, session: target.session, room: target.room };
+    entries.push(targetEntry);
+  }
+  ensureRoomHasSpace(schedule, targetEntry);
+
+  targetEntry.invigilators.push({ person, role: 'assistant' });
+  orderBySeniority(targetEntry, seniority);
+  return recomputeDutyCounts(schedule, entries);
+}
+
+// Take a person off a room
+export function removeAssignment(schedule: Schedule, ref: AssignmentRef): Schedule {
+  const entries = cloneEntries(schedule);
+  const { entry, index } = locate(entries, ref);
+  entry.invigilators.splice(index, 1);
+  return recomputeDutyCounts(schedule, entries.filter(e => e.invigilators.length > 0));
+}
@@ -1,29 +1,106 @@
-import { Person, Schedule, ScheduleEntry, DutyCount } from '../types';
+import { AssignmentRef, ExamDay, Person, RankRule, Room, Schedule, ScheduleEntry, DutyCount } from '../types';
+import { RandomSource, createSeededRandom, generateSeed, pickRandom, shuffle } from './random';
+import { createDefaultRooms } from './rooms';
+import { DEFAULT_RANK_RULES, getSeniorityOrder } from './ranks';
+import { computeDutyLimits } from './dutyLimits';
+import { isUnavailableOn } from './unavailability';
+
+export interface GenerateOptions {
+  preAssignedFaculty?: { [day: number]: string[] };
+  lockedAssignments?: AssignmentRef[]; // Places kept exactly as they are, never swapped out
+  unavailableDays?: { [personKey: string]: number[] }; // Days off, keyed by personKey (type and name)
+  days?: number;
+  calendar?: ExamDay[]; // Dates of the exam days, if known
+  rooms?: Room[];
+  rankRules?: RankRule[]; // Seniority and duty caps by designation
+  sessionsPerDay?: number;
+  oneSessionPerDay?: boolean; // Nobody sits more than one session on the same day
+  seed?: number;
+  random?: RandomSource;
+  onProgress?: (progress: GenerationProgress) => void; // Called as generation moves through its phases
+}
+
+export type GenerationPhase = 'fixed-days' | 'assigning' | 'balancing' | 'verifying' | 'searching';
+
+// Where a running generation has got to
+export interface GenerationProgress {
+  phase: GenerationPhase;
+  day?: number; // Day being filled
+  days: number;
+  swaps?: number; // Swaps made so far to meet duty targets
+  nodes?: number; // Partial schedules tried so far (exact engine)
+  candidate?: number; // Which of several candidates is being built (best-of-N mode)
+  candidates?: number;
+}
+
+type DutyCounter = Map<string, { count: number; type: 'faculty' | 'staff' }>;
+
+interface SlotAssignment {
+  day: number;
+  session: number;
+  room: number;
+}
+
+// Bookkeeping shared by the assignment loop and the repair passes
+interface AssignmentContext {
+  schedule: ScheduleEntry[];
+  people: Map<string, Person>;
+  rooms: Map<number, Room>;
+  dutyCounter: DutyCounter;
+  personAssignments: Map<string, SlotAssignment[]>;
+  unavailable: Map<string, Set<number>>;
+  personalCaps: Map<string, number>;
+  oneSessionPerDay: boolean;
+  locked: Set<string>; // Locked places, by lockKey
+  swaps: number; // Duties handed from one person to another so far
+}
 
 export function generateSchedule(
   faculty: Person[],
   staff: Person[],
-  preAssignedFaculty: { [day: number]: string[] } = {},
-  days: number = 6,
-  rooms: number = 11
+  options: GenerateOptions = {}
 ): Schedule {
+  const {
+    preAssignedFaculty = {},
+    lockedAssignments = [],
+    unavailableDays = {},
+    days = 6,
+    calendar = Array.from({ length: days }, (_, i) => ({ day: i + 1 })),
+    rooms = createDefaultRooms(11),
+    rankRules = DEFAULT_RANK_RULES,
+    sessionsPerDay = 1,
+    oneSessionPerDay = false,
+    seed = generateSeed()
+  } = options;
+  const random = options.random ?? createSeededRandom(seed);
+  const onProgress = options.onProgress ?? (() => {});
+
   const schedule: ScheduleEntry[] = [];
-  const dutyCounter = new Map<string, { count: number; type: 'faculty' | 'staff' }>();
+  const dutyCounter: DutyCounter = new Map();
 
-  // Staff duty target is exactly (days-1) per person
-  const staffDutyTarget = days - 1;
+  // Days on which each person cannot be assigned (leave, conferences, etc.)
+  const unavailable = new Map<string, Set<number>>();
+  Object.entries(unavailableDays).forEach(([key, blockedDays]) => {
+    unavailable.set(key, new Set(blockedDays.filter(d => d >= 1 && d <= days)));
+  });
 
-  // Calculate minimum staff assignments needed per day
-  // Total staff duties needed: staff.length * staffDutyTarget
-  // Distributed across days evenly
-  const minStaffAssignmentsPerDay = Math.floor((staff.length * staffDutyTarget) / days);
+  const {
+    staffTargets,
+    maxDutiesPerFaculty,
+    minDutiesPerFaculty,
+    personalCaps,
+    totalStaffDuties
+  } = computeDutyLimits(faculty, staff, { days, sessionsPerDay, oneSessionPerDay, rooms, rankRules, unavailable });
 
-  // Store original indices for seniority reference
-  const facultyIndices = new Map<string, number>();
-  faculty.forEach((f, index) => facultyIndices.set(f.name, index));
+  // Calculate minimum staff assignments needed per slot
+  // Total staff duties needed: sum of individual staff targets
+  // Distributed across all sessions of all days evenly
+  const totalSlots = days * sessionsPerDay;
+  const minStaffAssignmentsPerSlot = Math.floor(totalStaffDuties / totalSlots);
 
-  const staffIndices = new Map<string, number>();
-  staff.forEach((s, index) => staffIndices.set(s.name, index));
+  // Seniority positions: by designation when the roster has ranks, roster order otherwise
+  const facultySeniority = getSeniorityOrder(faculty, rankRules);
+  const staffSeniority = getSeniorityOrder(staff, rankRules);
 
   // Create combined people pool for random assignment
   const allPeople = [...faculty, ...staff];
@@ -32,501 +109,370 @@ export function generateSchedule(
   faculty.forEach(f => dutyCounter.set(f.name, { count: 0, type: 'faculty' }));
   staff.forEach(s => dutyCounter.set(s.name, { count: 0, type: 'staff' }));
 
-  // Calculate faculty duty thresholds
-  const totalPositions = days * rooms * 2; // days * rooms * (2 people per room)
-  const totalStaffDuties = staff.length * staffDutyTarget;
-  const remainingDutiesForFaculty = totalPositions - totalStaffDuties;
-
-  // Calculate base max duties per faculty
-  const baseMaxDutiesPerFaculty = Math.ceil(remainingDutiesForFaculty / faculty.length);
-
-  // Calculate seniority-based duty limits
-  const seniorityThreshold = Math.floor(faculty.length * 0.3); // Top 30% are considered senior
-  const maxDutiesPerFaculty = new Map<string, number>();
-
-  faculty.forEach((f, index) => {
-    // Senior faculty (top 30%) get fewer duties
-    if (index < seniorityThreshold) {
-      maxDutiesPerFaculty.set(f.name, Math.max(1, baseMaxDutiesPerFaculty - 2));
-    } else {
-      maxDutiesPerFaculty.set(f.name, baseMaxDutiesPerFaculty);
-    }
-  });
-
-  const minDutiesPerFaculty = Math.max(0, baseMaxDutiesPerFaculty - 2); // Set minimum 2 less than max
-
-  // Keep track of previous day assignments to avoid same classroom on consecutive days
-  const personAssignments = new Map<string, { day: number, room: number }[]>();
+  // Keep track of assignments to avoid double booking and same classroom on consecutive days
+  const personAssignments = new Map<string, SlotAssignment[]>();
   allPeople.forEach(p => personAssignments.set(p.name, []));
 
-  // Pre-assign faculty to specific days based on input data
-  const preAssignedRooms = new Map<number, number[]>(); // day -> [room numbers that are taken]
-  const dailyAssignments = new Map<number, Set<string>>(); // day -> set of assigned people
-
-  // Initialize daily assignments for tracking
-  for (let day = 1; day <= days; day++) {
-    dailyAssignments.set(day, new Set<string>());
-    preAssignedRooms.set(day, []);
-  }
+  const ctx: AssignmentContext = {
+    schedule,
+    people: new Map(allPeople.map(p => [p.name, p])),
+    rooms: new Map(rooms.map(room => [room.id, room])),
+    dutyCounter,
+    personAssignments,
+    unavailable,
+    personalCaps,
+    oneSessionPerDay,
+    locked: new Set(),
+    swaps: 0
+  };
+
+  // Locked places go in first, exactly where they were
+  lockedAssignments.forEach(lock => {
+    const person = ctx.people.get(lock.name);
+    const room = ctx.rooms.get(lock.room);
+    if (!person || !room || lock.day < 1 || lock.day > days || lock.session < 1 || lock.session > sessionsPerDay) return;
+
+    // Hard rules still hold, so a lock that now breaks one (new leave, a lower cap) is dropped
+    // and the place is filled like any other
+    if (isUnavailableOn(unavailable, person, lock.day) || isAtPersonalCap(ctx, lock.name) ||
+      isBusyInSlot(ctx, lock.name, lock.day, lock.session)) return;
+
+    const entry = findEntry(ctx, lock.day, lock.session, lock.room) ?? createEntry(ctx, lock.day, lock.session, lock.room);
+    if (entry.invigilators.length >= room.invigilators) return;
+    assignToEntry(ctx, entry, person);
+    ctx.locked.add(lockKey(entry, lock.name));
+  });
+  schedule.forEach(entry => enforcePositionBySeniority(entry, facultySeniority, staffSeniority));
 
-  // First, handle pre-assigned faculty
+  // First, handle pre-assigned faculty: each one opens a room that the main loop completes later
+  onProgress({ phase: 'fixed-days', days, swaps: 0 });
   for (let day = 1; day <= days; day++) {
     if (preAssignedFaculty[day] && preAssignedFaculty[day].length > 0) {
       const preAssignedNames = preAssignedFaculty[day];
 
       for (const facultyName of preAssignedNames) {
         // Skip if faculty doesn't exist in our pool
-        if (!facultyIndices.has(facultyName)) continue;
+        if (!facultySeniority.has(facultyName)) continue;
 
-        // Find available room (one that's not already taken)
-        let roomAssigned = false;
+        // A fixed day that clashes with the faculty's own unavailability cannot be honoured;
+        // the feasibility check and the validator report it
+        if (isUnavailableOn(unavailable, { type: 'faculty', name: facultyName }, day)) continue;
 
-        for (let room = 1; room <= rooms; room++) {
-          // Skip if this room is already taken for this day
-          if (preAssignedRooms.get(day)?.includes(room)) continue;
+        // A locked place already puts them on duty that day
+        if (ctx.personAssignments.get(facultyName)!.some(a => a.day === day)) continue;
 
-          // Check if faculty was in this room yesterday
-          const facultyAssignments = personAssignments.get(facultyName) || [];
-          const wasInSameRoomYesterday = facultyAssignments.some(a =>
-            a.day === day - 1 && a.room === room
-          );
-
-          if (!wasInSameRoomYesterday) {
-            // Find a suitable staff member for this room
-            const availableStaff = staff.filter(s => {
-              // Skip if already assigned today
-              if (dailyAssignments.get(day)?.has(s.name)) return false;
+        // Nor can one that would take them past their own duty cap
+        if (isAtPersonalCap(ctx, facultyName)) continue;
 
-              // Skip if they've reached their duty target
-              if (dutyCounter.get(s.name)!.count >= staffDutyTarget) return false;
-
-              // Skip if they were in this room yesterday
-              const staffAssignments = personAssignments.get(s.name) || [];
-              const wasInSameRoomYesterday = staffAssignments.some(a =>
-                a.day === day - 1 && a.room === room
-              );
+        // Spread fixed faculty over the day's sessions, least-used session first
+        const entriesInSession = (session: number) =>
+          schedule.filter(entry => entry.day === day && entry.session === session).length;
+        const sessionOrder = Array.from({ length: sessionsPerDay }, (_, i) => i + 1)
+          .sort((a, b) => entriesInSession(a) - entriesInSession(b));
 
-              return !wasInSameRoomYesterday;
-            });
-
-            if (availableStaff.length > 0) {
-              // Sort staff by duty count to prioritize those with fewer duties
-              const sortedStaff = [...availableStaff].sort((a, b) =>
-                dutyCounter.get(a.name)!.count - dutyCounter.get(b.name)!.count
-              );
+        // Find available room (one that's not already taken)
+        let roomAssigned = false;
 
-              const selectedStaff = sortedStaff[0];
+        for (const session of sessionOrder) {
+          if (roomAssigned) break;
+          if (isBusyInSlot(ctx, facultyName, day, session)) continue;
 
-              // Create a new schedule entry
-              schedule.push({
-                faculty: { name: facultyName, type: 'faculty' },
-                staff: selectedStaff,
-                room: room,
-                day: day
-              });
+          for (const room of rooms) {
+            // Skip rooms without invigilators or already taken for this slot
+            if (room.invigilators < 1 || findEntry(ctx, day, session, room.id)) continue;
 
-              // Mark both as assigned for this day
-              dailyAssignments.get(day)!.add(facultyName);
-              dailyAssignments.get(day)!.add(selectedStaff.name);
+            // Check if faculty was in this room on a neighbouring day
+            if (repeatsRoomOnAdjacentDay(ctx, facultyName, day, room.id)) continue;
 
-              // Update assignment history
-              personAssignments.get(facultyName)!.push({ day, room });
-              personAssignments.get(selectedStaff.name)!.push({ day, room });
+            const entry = createEntry(ctx, day, session, room.id);
+            assignToEntry(ctx, entry, ctx.people.get(facultyName)!);
 
-              // Update duty counter
-              dutyCounter.get(facultyName)!.count++;
-              dutyCounter.get(selectedStaff.name)!.count++;
+            roomAssigned = true;
+            break;
+          }
+        }
 
-              // Mark room as taken for this day
-              preAssignedRooms.get(day)!.push(room);
+        // Every room is open already: take a free place in one of them instead
+        for (const session of sessionOrder) {
+          if (roomAssigned) break;
+          if (isBusyInSlot(ctx, facultyName, day, session)) continue;
 
-              roomAssigned = true;
-              break;
-            }
+          const openEntry = schedule.find(entry =>
+            entry.day === day && entry.session === session &&
+            entry.invigilators.length < ctx.rooms.get(entry.room)!.invigilators &&
+            !repeatsRoomOnAdjacentDay(ctx, facultyName, day, entry.room)
+          );
+          if (openEntry) {
+            assignToEntry(ctx, openEntry, ctx.people.get(facultyName)!);
+            roomAssigned = true;
           }
         }
 
-        // If no room was assigned, we'll need to handle this later
-        if (!roomAssigned) {
-          console.warn(`Could not pre-assign faculty ${facultyName} for day ${day}`);
-        }
+        // No place left that day; the validator reports the unmet fixed day
       }
     }
   }
 
-  // Regular assignment process for remaining slots
+  // Regular assignment process for remaining positions
   for (let day = 1; day <= days; day++) {
-    // Get already assigned people for this day from pre-assignments
-    const assignedPeopleForDay = dailyAssignments.get(day) || new Set<string>();
-
-    // Get already assigned rooms for this day from pre-assignments
-    const assignedRoomsForDay = preAssignedRooms.get(day) || [];
-
-    // Count staff assignments for this day from pre-assignments
-    let staffAssignmentsForDay = Array.from(assignedPeopleForDay).filter(
-      name => dutyCounter.get(name)?.type === 'staff'
-    ).length;
-
-    // For each room on the current day that hasn't been pre-assigned
-    for (let room = 1; room <= rooms; room++) {
-      // Skip pre-assigned rooms
-      if (assignedRoomsForDay.includes(room)) continue;
-
-      // We'll assign two people to each room, first a faculty member, then any staff/faculty
-      let selectedPeople: Person[] = [];
-
-      // Calculate remaining rooms for this day
-      const remainingRooms = rooms - room + 1 - assignedRoomsForDay.filter(r => r >= room).length;
-
-      // Calculate how many more staff assignments needed for this day to meet minimum
-      const staffAssignmentsNeededForDay = Math.max(0, minStaffAssignmentsPerDay - staffAssignmentsForDay);
-
-      // Flag to force staff assignment if we're running behind on staff assignments
-      const forceStaffAssignment = remainingRooms <= staffAssignmentsNeededForDay;
-
-      // Try to fill positions from eligible people pool
-      for (let position = 0; position < 2; position++) {
-        // Modified: For first position, only select from faculty members unless we need to force staff
-        let candidatePool = position === 0 ? faculty : allPeople;
-
-        // If we're running behind on staff assignments and this is the second position,
-        // or if we absolutely need to assign staff and have few rooms left, prioritize staff
-        if ((position === 1 && staffAssignmentsForDay < minStaffAssignmentsPerDay) ||
-          (forceStaffAssignment && position === 1)) {
-          // For second position, try to use staff if we're behind on their assignments
-          const eligibleStaff = staff.filter(p => {
-            // Not already selected for this room
-            if (selectedPeople.some(selected => selected.name === p.name)) return false;
-
-            // Not assigned today
-            if (assignedPeopleForDay.has(p.name)) return false;
-
-            // Not reached max duties
-            const currentDuties = dutyCounter.get(p.name)!.count;
-            if (currentDuties >= staffDutyTarget) return false;
-
-            // Not assigned to same room yesterday
-            const assignments = personAssignments.get(p.name) || [];
-            const wasInSameRoomYesterday = assignments.some(a =>
-              a.day === day - 1 && a.room === room
+    onProgress({ phase: 'assigning', day, days, swaps: ctx.swaps });
+    for (let session = 1; session <= sessionsPerDay; session++) {
+      // Count staff assignments for this slot from pre-assignments
+      let staffAssignmentsForSlot = schedule
+        .filter(entry => entry.day === day && entry.session === session)
+        .reduce((sum, entry) => sum + entry.invigilators.filter(i => i.person.type === 'staff').length, 0);
+
+      // Open positions in this slot that staff are allowed to fill
+      let remainingStaffPositions = rooms.reduce((sum, room) => {
+        const entry = findEntry(ctx, day, session, room.id);
+        return sum + openStaffPositions(room, entry);
+      }, 0);
+
+      // For each room in the current slot, fill whatever pre-assignments left open
+      for (const room of rooms) {
+        const entry = findEntry(ctx, day, session, room.id) ?? createEntry(ctx, day, session, room.id);
+
+        // Fill positions in order; the first open one goes to faculty when the room requires
+        // it and has none yet
+        const firstOpen = entry.invigilators.length;
+        for (let position = firstOpen; position < room.invigilators; position++) {
+          const facultyOnly = position === firstOpen && room.requiresFaculty && !hasFaculty(entry);
+
+          // Calculate how many more staff assignments needed for this slot to meet minimum
+          const staffAssignmentsNeededForSlot = Math.max(0, minStaffAssignmentsPerSlot - staffAssignmentsForSlot);
+
+          // Flag to force staff assignment if we're running behind on staff assignments
+          const forceStaffAssignment = remainingStaffPositions <= staffAssignmentsNeededForSlot;
+
+          // Only faculty may take a faculty-only position, anyone else otherwise
+          let candidatePool = facultyOnly ? faculty : allPeople;
+
+          // If we're running behind on staff assignments, or if we absolutely need
+          // to assign staff and have few positions left, prioritize staff
+          if (!facultyOnly && (staffAssignmentsForSlot < minStaffAssignmentsPerSlot || forceStaffAssignment)) {
+            // Try to use staff if we're behind on their assignments
+            const eligibleStaff = staff.filter(p =>
+              // Not reached max duties
+              dutyCounter.get(p.name)!.count < staffTargets.get(p.name)! &&
+              // Free in this slot, available that day and not in the same room on a neighbouring day
+              canTakeSlot(ctx, p.name, day, session, room.id)
             );
 
-            return !wasInSameRoomYesterday;
-          });
-
-          // If we have eligible staff, use them exclusively
-          if (eligibleStaff.length > 0) {
-            candidatePool = eligibleStaff;
+            // If we have eligible staff, use them exclusively
+            if (eligibleStaff.length > 0) {
+              candidatePool = eligibleStaff;
+            }
           }
-        }
-
-        // Filter eligible people based on standard criteria
-        let eligiblePeople = candidatePool.filter(p => {
-          // Not already selected for this room
-          if (selectedPeople.some(selected => selected.name === p.name)) return false;
-
-          // Not assigned today
-          if (assignedPeopleForDay.has(p.name)) return false;
-
-          // Check duty constraints based on type
-          const currentDuties = dutyCounter.get(p.name)!.count;
-          const personType = dutyCounter.get(p.name)!.type;
 
-          // For staff: don't exceed staffDutyTarget
-          if (personType === 'staff' && currentDuties >= staffDutyTarget) return false;
+          // Filter eligible people based on standard criteria
+          const eligiblePeople = candidatePool.filter(p => {
+            // Check duty constraints based on type
+            const currentDuties = dutyCounter.get(p.name)!.count;
+            const personType = dutyCounter.get(p.name)!.type;
 
-          // For faculty: don't exceed their seniority-based max duties
-          if (personType === 'faculty' && currentDuties >= maxDutiesPerFaculty.get(p.name)!) return false;
+            // For staff: don't exceed their individual target
+            if (personType === 'staff' && currentDuties >= staffTargets.get(p.name)!) return false;
 
-          // Not assigned to same room yesterday
-          const assignments = personAssignments.get(p.name) || [];
-          const wasInSameRoomYesterday = assignments.some(a =>
-            a.day === day - 1 && a.room === room
-          );
+            // For faculty: don't exceed their seniority-based max duties
+            if (personType === 'faculty' && currentDuties >= maxDutiesPerFaculty.get(p.name)!) return false;
 
-          return !wasInSameRoomYesterday;
-        });
+            // Free in this slot, available that day and not in the same room on a neighbouring day
+            return canTakeSlot(ctx, p.name, day, session, room.id);
+          });
 
-        if (eligiblePeople.length > 0) {
-          // Prioritize people with fewer duties but still eligible
-          const sortedEligible = [...eligiblePeople].sort((a, b) =>
-            dutyCounter.get(a.name)!.count - dutyCounter.get(b.name)!.count
-          );
+          let selectedPerson: Person | undefined;
 
-          // Randomly select from people with the minimum duty count
-          const minDutyCount = dutyCounter.get(sortedEligible[0].name)!.count;
-          const peopleWithMinDuties = sortedEligible.filter(p =>
-            dutyCounter.get(p.name)!.count === minDutyCount
-          );
+          if (eligiblePeople.length > 0) {
+            // People still short of their own MinDuties go first
+            const belowMinimum = eligiblePeople.filter(p =>
+              p.minDuties !== undefined && dutyCounter.get(p.name)!.count < p.minDuties
+            );
 
-          const randomIndex = Math.floor(Math.random() * peopleWithMinDuties.length);
-          selectedPeople.push(peopleWithMinDuties[randomIndex]);
-        } else {
-          // Fallback: take anyone not assigned today, prioritizing those with fewer duties
-          // For first position, still restrict to faculty members only
-          const candidatePoolFallback = position === 0 ? faculty : allPeople;
-          const unassignedToday = candidatePoolFallback.filter(p => !assignedPeopleForDay.has(p.name));
-
-          // For position 1, filter out staff who reached their quota
-          const filteredUnassignedToday = position === 1
-            ? unassignedToday.filter(p =>
-              dutyCounter.get(p.name)!.type !== 'staff' ||
-              dutyCounter.get(p.name)!.count < staffDutyTarget
-            )
-            : unassignedToday;
-
-          if (filteredUnassignedToday.length > 0) {
-            const sortedUnassigned = [...filteredUnassignedToday].sort((a, b) =>
+            // Prioritize people with fewer duties but still eligible
+            const sortedEligible = [...(belowMinimum.length > 0 ? belowMinimum : eligiblePeople)].sort((a, b) =>
               dutyCounter.get(a.name)!.count - dutyCounter.get(b.name)!.count
             );
 
-            selectedPeople.push(sortedUnassigned[0]);
+            // Randomly select from people with the minimum duty count
+            const minDutyCount = dutyCounter.get(sortedEligible[0].name)!.count;
+            const peopleWithMinDuties = sortedEligible.filter(p =>
+              dutyCounter.get(p.name)!.count === minDutyCount
+            );
+
+            selectedPerson = pickRandom(peopleWithMinDuties, random);
           } else {
-            // Last resort: take person with fewest duties
-            // For first position, still restrict to faculty members only
-            let sortedAll = [...candidatePoolFallback].sort((a, b) =>
-              dutyCounter.get(a.name)!.count - dutyCounter.get(b.name)!.count
+            // Fallback: take anyone free in this slot, prioritizing those with fewer duties
+            // Faculty-only positions still restrict to faculty members
+            // Unavailability is a hard constraint and is never relaxed
+            // Personal caps and exemptions from the roster are never relaxed either
+            const candidatePoolFallback = (facultyOnly ? faculty : allPeople).filter(p =>
+              !isUnavailableOn(unavailable, p, day) &&
+              !isAtPersonalCap(ctx, p.name) &&
+              !hasInvigilator(entry, p.name) &&
+              // Filter out staff who reached their quota
+              (dutyCounter.get(p.name)!.type !== 'staff' ||
+                dutyCounter.get(p.name)!.count < staffTargets.get(p.name)!)
             );
+            const freeInSlot = candidatePoolFallback.filter(p => !isBusyInSlot(ctx, p.name, day, session));
 
-            // Filter out staff who reached their quota for position 1
-            if (position === 1) {
-              sortedAll = sortedAll.filter(p =>
-                dutyCounter.get(p.name)!.type !== 'staff' ||
-                dutyCounter.get(p.name)!.count < staffDutyTarget
+            if (freeInSlot.length > 0) {
+              // Randomly break ties between people with the fewest duties
+              const fewestDuties = Math.min(...freeInSlot.map(p => dutyCounter.get(p.name)!.count));
+              const leastLoaded = freeInSlot.filter(p =>
+                dutyCounter.get(p.name)!.count === fewestDuties
               );
-            }
 
-            // Skip people already selected for this room
-            const availablePeople = sortedAll.filter(p =>
-              !selectedPeople.some(selected => selected.name === p.name)
-            );
+              selectedPerson = pickRandom(leastLoaded, random);
+            } else {
+              // Last resort: take person with fewest duties
+              const sortedAll = [...candidatePoolFallback].sort((a, b) =>
+                dutyCounter.get(a.name)!.count - dutyCounter.get(b.name)!.count
+              );
 
-            if (availablePeople.length > 0) {
-              selectedPeople.push(availablePeople[0]);
+              selectedPerson = sortedAll[0];
             }
           }
-        }
 
-        // After selection is made, update staff assignment counter
-        if (selectedPeople.length === position + 1) {
-          const selectedPerson = selectedPeople[position];
-          const personType = dutyCounter.get(selectedPerson.name)!.type;
-          if (personType === 'staff') {
-            staffAssignmentsForDay++;
+          if (!selectedPerson) break;
+
+          assignToEntry(ctx, entry, selectedPerson);
+
+          // After selection is made, update staff assignment counters
+          if (!facultyOnly) {
+            remainingStaffPositions--;
+          }
+          if (dutyCounter.get(selectedPerson.name)!.type === 'staff') {
+            staffAssignmentsForSlot++;
           }
         }
-      }
 
-      // Make sure we found two people
-      if (selectedPeople.length === 2) {
-        // Sort people by seniority if they have the same type
-        const person1 = selectedPeople[0];
-        const person2 = selectedPeople[1];
-
-        // Get the types of the two people
-        const type1 = dutyCounter.get(person1.name)!.type;
-        const type2 = dutyCounter.get(person2.name)!.type;
-
-        // Arrange by seniority if both are faculty or both are staff
-        let faculty, staff;
-
-        if (type1 === 'faculty' && type2 === 'faculty') {
-          // Both are faculty, sort by faculty indices (lower index = higher seniority)
-          const idx1 = facultyIndices.get(person1.name)!;
-          const idx2 = facultyIndices.get(person2.name)!;
-
-          faculty = idx1 < idx2 ? person1 : person2;
-          staff = idx1 < idx2 ? person2 : person1;
-        } else if (type1 === 'staff' && type2 === 'staff') {
-          // Both are staff, sort by staff indices (lower index = higher seniority)
-          const idx1 = staffIndices.get(person1.name)!;
-          const idx2 = staffIndices.get(person2.name)!;
-
-          // For two staff, put higher seniority in faculty position
-          faculty = idx1 < idx2 ? person1 : person2;
-          staff = idx1 < idx2 ? person2 : person1;
+        // Drop rooms nobody could be found for; otherwise arrange by seniority
+        if (entry.invigilators.length === 0) {
+          schedule.splice(schedule.indexOf(entry), 1);
         } else {
-          // One faculty, one staff - faculty always goes in faculty position
-          faculty = type1 === 'faculty' ? person1 : person2;
-          staff = type1 === 'faculty' ? person2 : person1;
+          enforcePositionBySeniority(entry, facultySeniority, staffSeniority);
         }
-
-        // Mark as assigned for today
-        [faculty, staff].forEach(person => {
-          assignedPeopleForDay.add(person.name);
-
-          // Update assignment history
-          personAssignments.get(person.name)!.push({ day, room });
-
-          // Update duty counter
-          dutyCounter.get(person.name)!.count++;
-        });
-
-        // Add to schedule
-        schedule.push({
-          faculty,
-          staff,
-          room: room,
-          day: day
-        });
       }
-    }
-
-    // Before moving to next day, verify we assigned enough staff
-    // If not, we might need to swap some faculty with staff
-    if (staffAssignmentsForDay < minStaffAssignmentsPerDay) {
-      // Find entries for this day where both positions are filled by faculty
-      const entriesForDay = schedule.filter(entry => entry.day === day);
 
-      // Sort by rooms to keep changes predictable
-      entriesForDay.sort((a, b) => a.room - b.room);
+      // Before moving to next slot, verify we assigned enough staff
+      // If not, we might need to swap some faculty with staff
+      if (staffAssignmentsForSlot < minStaffAssignmentsPerSlot) {
+        // Find entries for this slot
+        const entriesForSlot = schedule.filter(entry => entry.day === day && entry.session === session);
 
-      // Calculate how many more staff we need to assign
-      const additionalStaffNeeded = minStaffAssignmentsPerDay - staffAssignmentsForDay;
+        // Calculate how many more staff we need to assign
+        const additionalStaffNeeded = minStaffAssignmentsPerSlot - staffAssignmentsForSlot;
 
-      // Find eligible staff to assign
-      const eligibleStaff = staff.filter(s =>
-        !assignedPeopleForDay.has(s.name) &&
-        dutyCounter.get(s.name)!.count < staffDutyTarget
-      );
-
-      // Sort by duty count to prioritize staff with fewer duties
-      eligibleStaff.sort((a, b) =>
-        dutyCounter.get(a.name)!.count - dutyCounter.get(b.name)!.count
-      );
+        // Find eligible staff to assign
+        const eligibleStaff = staff.filter(s =>
+          !isBusyInSlot(ctx, s.name, day, session) &&
+          !isUnavailableOn(unavailable, s, day) &&
+          dutyCounter.get(s.name)!.count < staffTargets.get(s.name)!
+        );
 
-      // Count swaps made
-      let swapsMade = 0;
+        // Sort by duty count to prioritize staff with fewer duties
+        eligibleStaff.sort((a, b) =>
+          dutyCounter.get(a.name)!.count - dutyCounter.get(b.name)!.count
+        );
 
-      // Try to swap faculty in staff positions with eligible staff
-      for (const entry of entriesForDay) {
-        if (swapsMade >= additionalStaffNeeded || eligibleStaff.length === 0) break;
+        // Count swaps made
+        let swapsMade = 0;
 
-        // If this entry has a faculty member in the staff position, swap it
-        if (dutyCounter.get(entry.staff.name)!.type === 'faculty') {
-          const staffToAssign = eligibleStaff.shift();
-          if (staffToAssign) {
-            // Decrement count for faculty member being replaced
-            dutyCounter.get(entry.staff.name)!.count--;
+        // Try to swap faculty the room can spare with eligible staff
+        for (const entry of entriesForSlot) {
+          for (const { person } of [...entry.invigilators]) {
+            if (swapsMade >= additionalStaffNeeded || eligibleStaff.length === 0) break;
+            if (person.type !== 'faculty' || !canHandOverToStaff(ctx, entry, person.name) ||
+              !canReleaseDuty(ctx, entry, person.name)) continue;
 
-            // Remove from assigned people and assignments
-            const facultyAssignments = personAssignments.get(entry.staff.name)!;
-            const indexToRemove = facultyAssignments.findIndex(a =>
-              a.day === day && a.room === entry.room
+            const staffIndex = eligibleStaff.findIndex(s =>
+              !repeatsRoomOnAdjacentDay(ctx, s.name, day, entry.room)
             );
-            if (indexToRemove !== -1) {
-              facultyAssignments.splice(indexToRemove, 1);
-            }
-
-            // Assign staff
-            entry.staff = staffToAssign;
-            assignedPeopleForDay.add(staffToAssign.name);
-            dutyCounter.get(staffToAssign.name)!.count++;
-            personAssignments.get(staffToAssign.name)!.push({ day, room: entry.room });
+            if (staffIndex !== -1) {
+              const [staffToAssign] = eligibleStaff.splice(staffIndex, 1);
+              transferDuty(ctx, entry, person.name, staffToAssign);
+              enforcePositionBySeniority(entry, facultySeniority, staffSeniority);
 
-            swapsMade++;
-            staffAssignmentsForDay++;
+              swapsMade++;
+              staffAssignmentsForSlot++;
+            }
           }
         }
       }
     }
   }
 
-  // Modified balance function to ensure staff maintain exactly staffDutyTarget duties
+  // Modified balance function to ensure staff maintain exactly their target duties
+  onProgress({ phase: 'balancing', days, swaps: ctx.swaps });
   balanceScheduleWithStaffConstraint(
-    schedule,
-    dutyCounter,
-    personAssignments,
+    ctx,
     maxDutiesPerFaculty,
     minDutiesPerFaculty,
-    staffDutyTarget,
-    facultyIndices,
-    staffIndices
+    staffTargets,
+    facultySeniority,
+    staffSeniority,
+    random
   );
 
-  // Final verification to ensure all staff have exactly staffDutyTarget duties
-  verifyStaffDuties(schedule, staff, staffDutyTarget, dutyCounter, personAssignments, facultyIndices, staffIndices);
+  // Final verification to ensure all staff have exactly their target duties
+  onProgress({ phase: 'verifying', days, swaps: ctx.swaps });
+  verifyStaffDuties(ctx, staff, staffTargets, facultySeniority, staffSeniority, random);
 
   // Convert duty counter to arrays
   const facultyDuties: DutyCount[] = Array.from(dutyCounter.entries())
-    .filter(([_, data]) => data.type === 'faculty')
+    .filter(([, data]) => data.type === 'faculty')
     .map(([name, data]) => ({ name, count: data.count }))
     .sort((a, b) => b.count - a.count);
 
   const staffDuties: DutyCount[] = Array.from(dutyCounter.entries())
-    .filter(([_, data]) => data.type === 'staff')
+    .filter(([, data]) => data.type === 'staff')
     .map(([name, data]) => ({ name, count: data.count }))
     .sort((a, b) => b.count - a.count);
 
-  return { entries: schedule, facultyDuties, staffDuties };
+  return { entries: schedule, facultyDuties, staffDuties, seed, days, calendar, sessionsPerDay, oneSessionPerDay, rooms };
 }
 
 // New function to verify and fix staff duty counts
 function verifyStaffDuties(
-  schedule: ScheduleEntry[],
+  ctx: AssignmentContext,
   staff: Person[],
-  staffDutyTarget: number,
-  dutyCounter: Map<string, { count: number; type: 'faculty' | 'staff' }>,
-  personAssignments: Map<string, { day: number, room: number }[]>,
-  facultyIndices: Map<string, number>,
-  staffIndices: Map<string, number>
+  staffTargets: Map<string, number>,
+  facultySeniority: Map<string, number>,
+  staffSeniority: Map<string, number>,
+  random: RandomSource
 ): void {
+  const { schedule, dutyCounter } = ctx;
+
   // Check each staff member
   for (const staffPerson of staff) {
     const dutyCount = dutyCounter.get(staffPerson.name)!.count;
+    const staffDutyTarget = staffTargets.get(staffPerson.name)!;
 
     // If staff has fewer duties than target, we need to add more
     if (dutyCount < staffDutyTarget) {
-      const dutiesNeeded = staffDutyTarget - dutyCount;
-
       // We'll need to find faculty members who can give up assignments
-      const facultyByDuties = Array.from(dutyCounter.entries())
-        .filter(([_, data]) => data.type === 'faculty')
+      // (shuffled first so equally-loaded faculty are tried in random order)
+      const facultyByDuties = shuffle(Array.from(dutyCounter.entries()), random)
+        .filter(([, data]) => data.type === 'faculty')
         .sort((a, b) => b[1].count - a[1].count);
 
       // Start with faculty who have the most duties
       for (const [facultyName, facultyData] of facultyByDuties) {
         if (facultyData.count <= 1) continue; // Don't take faculty's last duty
 
-        // Find entries where this faculty is assigned in staff position
+        // Find entries where this faculty is not the room's required faculty member
         const facultyEntries = schedule.filter(entry =>
-          entry.staff.name === facultyName
+          canReleaseDuty(ctx, entry, facultyName) && canHandOverToStaff(ctx, entry, facultyName)
         );
 
         for (const entry of facultyEntries) {
           // Check if staff can take this duty
-          // Staff should not already be assigned on this day
-          const isAssignedOnDay = schedule.some(e =>
-            e.day === entry.day && (e.faculty.name === staffPerson.name || e.staff.name === staffPerson.name)
-          );
-
-          // Staff should not have been in same room yesterday
-          const staffAssignments = personAssignments.get(staffPerson.name) || [];
-          const wasInSameRoomYesterday = staffAssignments.some(a =>
-            a.day === entry.day - 1 && a.room === entry.room
-          );
-
-          if (!isAssignedOnDay && !wasInSameRoomYesterday) {
+          if (canTakeDuty(ctx, staffPerson.name, entry)) {
             // Perform the swap
-            // Remove faculty from this position
-            dutyCounter.get(facultyName)!.count--;
-
-            // Update faculty's assignment history
-            const facultyAssignments = personAssignments.get(facultyName)!;
-            const indexToRemove = facultyAssignments.findIndex(a =>
-              a.day === entry.day && a.room === entry.room
-            );
-            if (indexToRemove !== -1) {
-              facultyAssignments.splice(indexToRemove, 1);
-            }
-
-            // Assign staff to this position
-            entry.staff = staffPerson;
-            dutyCounter.get(staffPerson.name)!.count++;
-            personAssignments.get(staffPerson.name)!.push({ day: entry.day, room: entry.room });
+            transferDuty(ctx, entry, facultyName, staffPerson);
 
             // Re-check seniority after the swap
-            enforcePositionBySeniority(entry, facultyIndices, staffIndices, dutyCounter);
+            enforcePositionBySeniority(entry, facultySeniority, staffSeniority);
 
             if (dutyCounter.get(staffPerson.name)!.count >= staffDutyTarget) {
               break; // We've added enough duties
@@ -543,49 +489,23 @@ function verifyStaffDuties(
       if (dutyCounter.get(staffPerson.name)!.count < staffDutyTarget) {
         const overassignedStaff = staff.filter(s =>
           s.name !== staffPerson.name &&
-          dutyCounter.get(s.name)!.count > staffDutyTarget
+          dutyCounter.get(s.name)!.count > staffTargets.get(s.name)!
         );
 
         for (const otherStaff of overassignedStaff) {
           // Find entries where overassigned staff is assigned
           const staffEntries = schedule.filter(entry =>
-            entry.staff.name === otherStaff.name
+            canReleaseDuty(ctx, entry, otherStaff.name)
           );
 
           for (const entry of staffEntries) {
             // Check if our staff can take this duty
-            // Should not already be assigned on this day
-            const isAssignedOnDay = schedule.some(e =>
-              e.day === entry.day && (e.faculty.name === staffPerson.name || e.staff.name === staffPerson.name)
-            );
-
-            // Should not have been in same room yesterday
-            const staffAssignments = personAssignments.get(staffPerson.name) || [];
-            const wasInSameRoomYesterday = staffAssignments.some(a =>
-              a.day === entry.day - 1 && a.room === entry.room
-            );
-
-            if (!isAssignedOnDay && !wasInSameRoomYesterday) {
+            if (canTakeDuty(ctx, staffPerson.name, entry)) {
               // Perform the swap
-              // Remove overassigned staff
-              dutyCounter.get(otherStaff.name)!.count--;
-
-              // Update assignment history
-              const otherStaffAssignments = personAssignments.get(otherStaff.name)!;
-              const indexToRemove = otherStaffAssignments.findIndex(a =>
-                a.day === entry.day && a.room === entry.room
-              );
-              if (indexToRemove !== -1) {
-                otherStaffAssignments.splice(indexToRemove, 1);
-              }
-
-              // Assign our staff
-              entry.staff = staffPerson;
-              dutyCounter.get(staffPerson.name)!.count++;
-              personAssignments.get(staffPerson.name)!.push({ day: entry.day, room: entry.room });
+              transferDuty(ctx, entry, otherStaff.name, staffPerson);
 
               // Re-check seniority
-              enforcePositionBySeniority(entry, facultyIndices, staffIndices, dutyCounter);
+              enforcePositionBySeniority(entry, facultySeniority, staffSeniority);
 
               if (dutyCounter.get(staffPerson.name)!.count >= staffDutyTarget) {
                 break; // We've added enough duties
@@ -605,55 +525,33 @@ function verifyStaffDuties(
       const excessDuties = dutyCount - staffDutyTarget;
 
       // Find faculty who can take more duties
-      const facultyByDuties = Array.from(dutyCounter.entries())
-        .filter(([_, data]) => data.type === 'faculty')
+      const facultyByDuties = shuffle(Array.from(dutyCounter.entries()), random)
+        .filter(([, data]) => data.type === 'faculty')
         .sort((a, b) => a[1].count - b[1].count); // Start with faculty who have the fewest duties
 
       // Find entries where this staff is assigned
       const staffEntries = schedule.filter(entry =>
-        entry.staff.name === staffPerson.name
+        canReleaseDuty(ctx, entry, staffPerson.name)
       );
 
       let dutiesRemoved = 0;
 
-      for (const [facultyName, facultyData] of facultyByDuties) {
+      for (const [facultyName] of facultyByDuties) {
         if (dutiesRemoved >= excessDuties) break;
 
         for (const entry of staffEntries) {
           if (dutiesRemoved >= excessDuties) break;
 
-          // Check if faculty can take this duty
-          // Faculty should not already be assigned on this day
-          const isAssignedOnDay = schedule.some(e =>
-            e.day === entry.day && (e.faculty.name === facultyName || e.staff.name === facultyName)
-          );
-
-          // Faculty should not have been in same room yesterday
-          const facultyAssignments = personAssignments.get(facultyName) || [];
-          const wasInSameRoomYesterday = facultyAssignments.some(a =>
-            a.day === entry.day - 1 && a.room === entry.room
-          );
-
-          if (!isAssignedOnDay && !wasInSameRoomYesterday) {
-            // Remove staff from this position
-            dutyCounter.get(staffPerson.name)!.count--;
-
-            // Update staff's assignment history
-            const staffAssignments = personAssignments.get(staffPerson.name)!;
-            const indexToRemove = staffAssignments.findIndex(a =>
-              a.day === entry.day && a.room === entry.room
-            );
-            if (indexToRemove !== -1) {
-              staffAssignments.splice(indexToRemove, 1);
-            }
+          // The entry may already have been handed over in an earlier iteration
+          if (!hasInvigilator(entry, staffPerson.name)) continue;
 
+          // Check if faculty can take this duty
+          if (canTakeDuty(ctx, facultyName, entry)) {
             // Assign faculty to this position
-            entry.staff = { name: facultyName, type: 'faculty' };
-            dutyCounter.get(facultyName)!.count++;
-            personAssignments.get(facultyName)!.push({ day: entry.day, room: entry.room });
+            transferDuty(ctx, entry, staffPerson.name, ctx.people.get(facultyName)!);
 
             // Re-check seniority after the swap
-            enforcePositionBySeniority(entry, facultyIndices, staffIndices, dutyCounter);
+            enforcePositionBySeniority(entry, facultySeniority, staffSeniority);
 
             dutiesRemoved++;
           }
@@ -664,7 +562,7 @@ function verifyStaffDuties(
       if (dutiesRemoved < excessDuties) {
         const underworkedStaff = staff.filter(s =>
           s.name !== staffPerson.name &&
-          dutyCounter.get(s.name)!.count < staffDutyTarget
+          dutyCounter.get(s.name)!.count < staffTargets.get(s.name)!
         );
 
         for (const otherStaff of underworkedStaff) {
@@ -673,38 +571,15 @@ function verifyStaffDuties(
           for (const entry of staffEntries) {
             if (dutiesRemoved >= excessDuties) break;
 
-            // Check if other staff can take this duty
-            // Should not already be assigned on this day
-            const isAssignedOnDay = schedule.some(e =>
-              e.day === entry.day && (e.faculty.name === otherStaff.name || e.staff.name === otherStaff.name)
-            );
-
-            // Should not have been in same room yesterday
-            const otherStaffAssignments = personAssignments.get(otherStaff.name) || [];
-            const wasInSameRoomYesterday = otherStaffAssignments.some(a =>
-              a.day === entry.day - 1 && a.room === entry.room
-            );
-
-            if (!isAssignedOnDay && !wasInSameRoomYesterday) {
-              // Remove our staff
-              dutyCounter.get(staffPerson.name)!.count--;
-
-              // Update assignment history
-              const staffAssignments = personAssignments.get(staffPerson.name)!;
-              const indexToRemove = staffAssignments.findIndex(a =>
-                a.day === entry.day && a.room === entry.room
-              );
-              if (indexToRemove !== -1) {
-                staffAssignments.splice(indexToRemove, 1);
-              }
+            if (!hasInvigilator(entry, staffPerson.name)) continue;
 
+            // Check if other staff can take this duty
+            if (canTakeDuty(ctx, otherStaff.name, entry)) {
               // Assign other staff
-              entry.staff = otherStaff;
-              dutyCounter.get(otherStaff.name)!.count++;
-              personAssignments.get(otherStaff.name)!.push({ day: entry.day, room: entry.room });
+              transferDuty(ctx, entry, staffPerson.name, otherStaff);
 
               // Re-check seniority
-              enforcePositionBySeniority(entry, facultyIndices, staffIndices, dutyCounter);
+              enforcePositionBySeniority(entry, facultySeniority, staffSeniority);
 
               dutiesRemoved++;
             }
@@ -717,29 +592,30 @@ function verifyStaffDuties(
 
 // Modified helper function to balance the schedule with staff constraint
 function balanceScheduleWithStaffConstraint(
-  schedule: ScheduleEntry[],
-  dutyCounter: Map<string, { count: number; type: 'faculty' | 'staff' }>,
-  personAssignments: Map<string, { day: number, room: number }[]>,
+  ctx: AssignmentContext,
   maxDutiesPerFaculty: Map<string, number>,
   minDutiesPerFaculty: number,
-  staffDutyTarget: number,
-  facultyIndices: Map<string, number>,
-  staffIndices: Map<string, number>
+  staffTargets: Map<string, number>,
+  facultySeniority: Map<string, number>,
+  staffSeniority: Map<string, number>,
+  random: RandomSource
 ): void {
-  // First check if any staff has != staffDutyTarget duties
+  const { schedule, dutyCounter } = ctx;
+
+  // First check if any staff has a duty count different from their target
   const staffEntries = Array.from(dutyCounter.entries())
-    .filter(([_, data]) => data.type === 'staff');
+    .filter(([, data]) => data.type === 'staff');
 
-  const overworkedStaff = staffEntries.filter(([_, data]) => data.count > staffDutyTarget);
-  const underworkedStaff = staffEntries.filter(([_, data]) => data.count < staffDutyTarget);
+  const overworkedStaff = staffEntries.filter(([name, data]) => data.count > staffTargets.get(name)!);
+  const underworkedStaff = staffEntries.filter(([name, data]) => data.count < staffTargets.get(name)!);
 
-  // Get all faculty sorted by duty count (highest to lowest)
-  const facultyByDuties = Array.from(dutyCounter.entries())
-    .filter(([_, data]) => data.type === 'faculty')
+  // Get all faculty sorted by duty count (highest to lowest), ties in random order
+  const facultyByDuties = shuffle(Array.from(dutyCounter.entries()), random)
+    .filter(([, data]) => data.type === 'faculty')
     .sort((a, b) => b[1].count - a[1].count);
 
   // Calculate faculty duty stats
-  const totalFacultyDuties = facultyByDuties.reduce((sum, [_, data]) => sum + data.count, 0);
+  const totalFacultyDuties = facultyByDuties.reduce((sum, [, data]) => sum + data.count, 0);
   const avgFacultyDuties = totalFacultyDuties / facultyByDuties.length;
 
   // Identify faculty that can give/take duties
@@ -748,7 +624,8 @@ function balanceScheduleWithStaffConstraint(
   );
 
   const underworkedFaculty = facultyByDuties.filter(([name, data]) =>
-    data.count < Math.min(avgFacultyDuties - 1, minDutiesPerFaculty)
+    data.count < getFacultyFloor(ctx, name, Math.min(avgFacultyDuties - 1, minDutiesPerFaculty)) &&
+    data.count < maxDutiesPerFaculty.get(name)!
   );
 
   // Perform swaps to balance (limited to prevent infinite loops)
@@ -761,64 +638,30 @@ function balanceScheduleWithStaffConstraint(
   for (const [staffName, staffData] of overworkedStaff) {
     if (swapsPerformed >= maxSwaps) break;
 
-    let excessDuties = staffData.count - staffDutyTarget;
+    let excessDuties = staffData.count - staffTargets.get(staffName)!;
 
     // Find underworked faculty to take these duties
-    for (const [facultyName, facultyData] of underworkedFaculty) {
+    for (const [facultyName] of underworkedFaculty) {
       if (swapsPerformed >= maxSwaps || excessDuties <= 0) break;
 
       // Find entries where this staff is assigned
       const entriesWithStaff = schedule.filter(entry =>
-        entry.faculty.name === staffName || entry.staff.name === staffName
+        canReleaseDuty(ctx, entry, staffName)
       );
 
       for (const entry of entriesWithStaff) {
         if (swapsPerformed >= maxSwaps || excessDuties <= 0) break;
 
-        // Determine position of staff in this entry
-        const isStaffInFacultyPosition = entry.faculty.name === staffName;
-
         // Check if faculty can be assigned here
-        // Check if faculty is not already assigned on this day
-        const isAssignedOnDay = schedule.some(e =>
-          e.day === entry.day && (e.faculty.name === facultyName || e.staff.name === facultyName)
-        );
-
-        // Check if faculty was not in same room on previous day
-        const facultyAssignments = personAssignments.get(facultyName) || [];
-        const wasInSameRoomYesterday = facultyAssignments.some(a =>
-          a.day === entry.day - 1 && a.room === entry.room
-        );
-
-        if (!isAssignedOnDay && !wasInSameRoomYesterday) {
+        if (canTakeDuty(ctx, facultyName, entry)) {
           // Perform swap
-          if (isStaffInFacultyPosition) {
-            entry.faculty = { name: facultyName, type: 'faculty' };
-          } else {
-            entry.staff = { name: facultyName, type: 'faculty' };
-          }
-
-          // Update counts
-          dutyCounter.get(staffName)!.count--;
-          dutyCounter.get(facultyName)!.count++;
-
-          // Update assignments
-          const staffAssignments = personAssignments.get(staffName)!;
-          const indexToRemove = staffAssignments.findIndex(a =>
-            a.day === entry.day && a.room === entry.room
-          );
-
-          if (indexToRemove !== -1) {
-            staffAssignments.splice(indexToRemove, 1);
-          }
-
-          personAssignments.get(facultyName)!.push({ day: entry.day, room: entry.room });
+          transferDuty(ctx, entry, staffName, ctx.people.get(facultyName)!);
 
           swapsPerformed++;
           excessDuties--;
 
           // Re-check seniority after the swap
-          enforcePositionBySeniority(entry, facultyIndices, staffIndices, dutyCounter);
+          enforcePositionBySeniority(entry, facultySeniority, staffSeniority);
         }
       }
     }
@@ -828,63 +671,33 @@ function balanceScheduleWithStaffConstraint(
   for (const [staffName, staffData] of underworkedStaff) {
     if (swapsPerformed >= maxSwaps) break;
 
-    let neededDuties = staffDutyTarget - staffData.count;
+    let neededDuties = staffTargets.get(staffName)! - staffData.count;
 
     // Find overworked faculty to give up duties
-    for (const [facultyName, facultyData] of overworkedFaculty) {
+    for (const [facultyName] of overworkedFaculty) {
       if (swapsPerformed >= maxSwaps || neededDuties <= 0) break;
 
       // Find entries where this faculty is assigned
       const entriesWithFaculty = schedule.filter(entry =>
-        entry.faculty.name === facultyName || entry.staff.name === facultyName
+        canReleaseDuty(ctx, entry, facultyName)
       );
 
       for (const entry of entriesWithFaculty) {
         if (swapsPerformed >= maxSwaps || neededDuties <= 0) break;
 
-        // Determine position of faculty in this entry
-        const isFacultyInFacultyPosition = entry.faculty.name === facultyName;
-
-        // For faculty position, we need a staff of type 'faculty' to replace
-        if (isFacultyInFacultyPosition) continue; // Skip faculty positions as staff can't take them
+        // Staff can't replace the only faculty member of a room that requires one
+        if (!canHandOverToStaff(ctx, entry, facultyName)) continue;
 
         // Check if staff can be assigned here
-        // Check if staff is not already assigned on this day
-        const isAssignedOnDay = schedule.some(e =>
-          e.day === entry.day && (e.faculty.name === staffName || e.staff.name === staffName)
-        );
-
-        // Check if staff was not in same room on previous day
-        const staffAssignments = personAssignments.get(staffName) || [];
-        const wasInSameRoomYesterday = staffAssignments.some(a =>
-          a.day === entry.day - 1 && a.room === entry.room
-        );
-
-        if (!isAssignedOnDay && !wasInSameRoomYesterday) {
-          // Perform swap - staff can only take staff position
-          entry.staff = { name: staffName, type: 'staff' };
-
-          // Update counts
-          dutyCounter.get(facultyName)!.count--;
-          dutyCounter.get(staffName)!.count++;
-
-          // Update assignments
-          const facultyAssignments = personAssignments.get(facultyName)!;
-          const indexToRemove = facultyAssignments.findIndex(a =>
-            a.day === entry.day && a.room === entry.room
-          );
-
-          if (indexToRemove !== -1) {
-            facultyAssignments.splice(indexToRemove, 1);
-          }
-
-          personAssignments.get(staffName)!.push({ day: entry.day, room: entry.room });
+        if (canTakeDuty(ctx, staffName, entry)) {
+          // Perform swap
+          transferDuty(ctx, entry, facultyName, ctx.people.get(staffName)!);
 
           swapsPerformed++;
           neededDuties--;
 
           // Re-check seniority after the swap
-          enforcePositionBySeniority(entry, facultyIndices, staffIndices, dutyCounter);
+          enforcePositionBySeniority(entry, facultySeniority, staffSeniority);
         }
       }
     }
@@ -892,76 +705,42 @@ function balanceScheduleWithStaffConstraint(
 
   // Phase 2: Balance faculty duties (only swap faculty with faculty)
   // Recalculate faculty status
-  const updatedFacultyByDuties = Array.from(dutyCounter.entries())
-    .filter(([_, data]) => data.type === 'faculty')
+  const updatedFacultyByDuties = shuffle(Array.from(dutyCounter.entries()), random)
+    .filter(([, data]) => data.type === 'faculty')
     .sort((a, b) => b[1].count - a[1].count);
 
-  const updatedOverworkedFaculty = updatedFacultyByDuties.filter(([_, data]) =>
+  const updatedOverworkedFaculty = updatedFacultyByDuties.filter(([, data]) =>
     data.count > avgFacultyDuties + 1 && data.count > minDutiesPerFaculty + 1
   );
 
-  const updatedUnderworkedFaculty = updatedFacultyByDuties.filter(([_, data]) =>
-    data.count < avgFacultyDuties - 1
+  const updatedUnderworkedFaculty = updatedFacultyByDuties.filter(([name, data]) =>
+    data.count < getFacultyFloor(ctx, name, avgFacultyDuties - 1) && data.count < maxDutiesPerFaculty.get(name)!
   );
 
   // Swap duties between faculty members to balance
-  for (const [overworkedName, overworkedData] of updatedOverworkedFaculty) {
+  for (const [overworkedName] of updatedOverworkedFaculty) {
     if (swapsPerformed >= maxSwaps) break;
 
-    for (const [underworkedName, underworkedData] of updatedUnderworkedFaculty) {
+    for (const [underworkedName] of updatedUnderworkedFaculty) {
       if (swapsPerformed >= maxSwaps) break;
 
       // Find entries where overworked faculty is assigned
       const entriesWithOverworked = schedule.filter(entry =>
-        entry.faculty.name === overworkedName || entry.staff.name === overworkedName
+        canReleaseDuty(ctx, entry, overworkedName)
       );
 
       for (const entry of entriesWithOverworked) {
         if (swapsPerformed >= maxSwaps) break;
 
-        // Determine position
-        const isInFacultyPosition = entry.faculty.name === overworkedName;
-
         // Check if underworked can be assigned here
-        // Check if not already assigned on this day
-        const isAssignedOnDay = schedule.some(e =>
-          e.day === entry.day && (e.faculty.name === underworkedName || e.staff.name === underworkedName)
-        );
-
-        // Check if was not in same room on previous day
-        const underworkedAssignments = personAssignments.get(underworkedName) || [];
-        const wasInSameRoomYesterday = underworkedAssignments.some(a =>
-          a.day === entry.day - 1 && a.room === entry.room
-        );
-
-        if (!isAssignedOnDay && !wasInSameRoomYesterday) {
+        if (canTakeDuty(ctx, underworkedName, entry)) {
           // Perform swap
-          if (isInFacultyPosition) {
-            entry.faculty = { name: underworkedName, type: 'faculty' };
-          } else {
-            entry.staff = { name: underworkedName, type: 'faculty' };
-          }
-
-          // Update counts
-          dutyCounter.get(overworkedName)!.count--;
-          dutyCounter.get(underworkedName)!.count++;
-
-          // Update assignments
-          const overworkedAssignments = personAssignments.get(overworkedName)!;
-          const indexToRemove = overworkedAssignments.findIndex(a =>
-            a.day === entry.day && a.room === entry.room
-          );
-
-          if (indexToRemove !== -1) {
-            overworkedAssignments.splice(indexToRemove, 1);
-          }
-
-          personAssignments.get(underworkedName)!.push({ day: entry.day, room: entry.room });
+          transferDuty(ctx, entry, overworkedName, ctx.people.get(underworkedName)!);
 
           swapsPerformed++;
 
           // Re-check seniority after the swap
-          enforcePositionBySeniority(entry, facultyIndices, staffIndices, dutyCounter);
+          enforcePositionBySeniority(entry, facultySeniority, staffSeniority);
           break;
         }
       }
@@ -970,51 +749,148 @@ function balanceScheduleWithStaffConstraint(
 
   // Final pass to ensure all entries have correct seniority ordering
   schedule.forEach(entry => {
-    enforcePositionBySeniority(entry, facultyIndices, staffIndices, dutyCounter);
+    enforcePositionBySeniority(entry, facultySeniority, staffSeniority);
   });
 }
 
-// Helper function to enforce seniority ordering in a schedule entry
+// Helper function to enforce seniority ordering in a schedule entry:
+// faculty ahead of staff, then by seniority (lower position = more senior rank).
+// The first invigilator leads the room.
 function enforcePositionBySeniority(
   entry: ScheduleEntry,
-  facultyIndices: Map<string, number>,
-  staffIndices: Map<string, number>,
-  dutyCounter: Map<string, { count: number; type: 'faculty' | 'staff' }>
+  facultySeniority: Map<string, number>,
+  staffSeniority: Map<string, number>
 ): void {
-  const faculty = entry.faculty;
-  const staff = entry.staff;
-
-  // Get types from duty counter
-  const facultyType = dutyCounter.get(faculty.name)!.type;
-  const staffType = dutyCounter.get(staff.name)!.type;
-
-  // If both are faculty, ensure higher seniority is in the faculty position
-  if (facultyType === 'faculty' && staffType === 'faculty') {
-    const facultyIdx = facultyIndices.get(faculty.name)!;
-    const staffIdx = facultyIndices.get(staff.name)!;
-
-    // If staff has higher seniority (lower index), swap positions
-    if (staffIdx < facultyIdx) {
-      entry.faculty = staff;
-      entry.staff = faculty;
-    }
-  }
-  // If both are staff, ensure higher seniority is in the faculty position
-  else if (facultyType === 'staff' && staffType === 'staff') {
-    const facultyIdx = staffIndices.get(faculty.name)!;
-    const staffIdx = staffIndices.get(staff.name)!;
-
-    // If staff has higher seniority (lower index), swap positions
-    if (staffIdx < facultyIdx) {
-      entry.faculty = staff;
-      entry.staff = faculty;
-    }
-  }
-  // If mixed types, faculty type should be in faculty position
-  else if (facultyType === 'staff' && staffType === 'faculty') {
-    // Swap them as faculty should be in faculty position
-    entry.faculty = staff;
-    entry.staff = faculty;
+  const seniorityRank = (person: Person): number =>
+    person.type === 'faculty'
+      ? facultySeniority.get(person.name)!
+      : facultySeniority.size + staffSeniority.get(person.name)!;
+
+  entry.invigilators.sort((a, b) => seniorityRank(a.person) - seniorityRank(b.person));
+  entry.invigilators.forEach((invigilator, index) => {
+    invigilator.role = index === 0 ? 'lead' : 'assistant';
+  });
+}
+
+// Helper function to open an empty entry for a room in a slot
+function createEntry(ctx: AssignmentContext, day: number, session: number, room: number): ScheduleEntry {
+  const entry: ScheduleEntry = { invigilators: [], room, day, session };
+  ctx.schedule.push(entry);
+  return entry;
+}
+
+// Helper function to add a person to an entry and record the duty
+function assignToEntry(ctx: AssignmentContext, entry: ScheduleEntry, person: Person): void {
+  entry.invigilators.push({ person, role: entry.invigilators.length === 0 ? 'lead' : 'assistant' });
+  ctx.personAssignments.get(person.name)!.push({ day: entry.day, session: entry.session, room: entry.room });
+  ctx.dutyCounter.get(person.name)!.count++;
+}
+
+// Helper function to hand one person's place in an entry to another person, keeping counters and history in sync
+function transferDuty(
+  ctx: AssignmentContext,
+  entry: ScheduleEntry,
+  outgoingName: string,
+  incoming: Person
+): void {
+  const invigilator = entry.invigilators.find(i => i.person.name === outgoingName);
+  if (!invigilator) return;
+
+  ctx.dutyCounter.get(outgoingName)!.count--;
+  const outgoingAssignments = ctx.personAssignments.get(outgoingName)!;
+  const indexToRemove = outgoingAssignments.findIndex(a =>
+    a.day === entry.day && a.session === entry.session && a.room === entry.room
+  );
+  if (indexToRemove !== -1) {
+    outgoingAssignments.splice(indexToRemove, 1);
   }
-  // If faculty is in faculty position and staff is in staff position, no change needed
+
+  invigilator.person = incoming;
+  ctx.dutyCounter.get(incoming.name)!.count++;
+  ctx.personAssignments.get(incoming.name)!.push({ day: entry.day, session: entry.session, room: entry.room });
+  ctx.swaps++;
+}
+
+function findEntry(ctx: AssignmentContext, day: number, session: number, room: number): ScheduleEntry | undefined {
+  return ctx.schedule.find(entry => entry.day === day && entry.session === session && entry.room === room);
 }
+
+function hasInvigilator(entry: ScheduleEntry, name: string): boolean {
+  return entry.invigilators.some(i => i.person.name === name);
+}
+
+// Helper function to count unfilled positions in a room that staff may take
+function openStaffPositions(room: Room, entry: ScheduleEntry | undefined): number {
+  const filled = entry?.invigilators.length ?? 0;
+  const open = Math.max(0, room.invigilators - filled);
+  // One position of a faculty-required room is reserved for faculty until one is in it
+  return room.requiresFaculty && !(entry && hasFaculty(entry)) ? Math.max(0, open - 1) : open;
+}
+
+function hasFaculty(entry: ScheduleEntry): boolean {
+  return entry.invigilators.some(i => i.person.type === 'faculty');
+}
+
+// Helper function to key a person's place in an entry, for the set of locked places
+function lockKey(slot: SlotAssignment, name: string): string {
+  return `${slot.day}/${slot.session}/${slot.room}/${name}`;
+}
+
+// Helper function to check whether a person sits in an entry and may be swapped out of it
+function canReleaseDuty(ctx: AssignmentContext, entry: ScheduleEntry, name: string): boolean {
+  return hasInvigilator(entry, name) && !ctx.locked.has(lockKey(entry, name));
+}
+
+// Helper function to check whether a faculty member can be replaced by staff
+// without leaving a faculty-required room with no faculty
+function canHandOverToStaff(ctx: AssignmentContext, entry: ScheduleEntry, facultyName: string): boolean {
+  if (!ctx.rooms.get(entry.room)?.requiresFaculty) return true;
+  return entry.invigilators.some(i => i.person.type === 'faculty' && i.person.name !== facultyName);
+}
+
+// Helper function to check whether a person can take over a position in an existing entry
+function canTakeDuty(ctx: AssignmentContext, name: string, entry: ScheduleEntry): boolean {
+  return canTakeSlot(ctx, name, entry.day, entry.session, entry.room);
+}
+
+// Helper function to check all hard rules for placing a person in a room during a slot
+function canTakeSlot(
+  ctx: AssignmentContext,
+  name: string,
+  day: number,
+  session: number,
+  room: number
+): boolean {
+  return !isAtPersonalCap(ctx, name) &&
+    !isBusyInSlot(ctx, name, day, session) &&
+    !isUnavailableOn(ctx.unavailable, ctx.people.get(name)!, day) &&
+    !repeatsRoomOnAdjacentDay(ctx, name, day, room);
+}
+
+// Helper function to check whether a person has reached the cap set in the roster (0 when exempt)
+function isAtPersonalCap(ctx: AssignmentContext, name: string): boolean {
+  const cap = ctx.personalCaps.get(name);
+  return cap !== undefined && ctx.dutyCounter.get(name)!.count >= cap;
+}
+
+// Helper function to get the duty count below which a faculty member counts as underworked:
+// their own MinDuties when the roster sets one, the default floor otherwise
+function getFacultyFloor(ctx: AssignmentContext, name: string, defaultFloor: number): number {
+  return ctx.people.get(name)?.minDuties ?? defaultFloor;
+}
+
+// Helper function to check whether a person is already on duty in a slot
+// (or anywhere that day when only one session per day is allowed)
+function isBusyInSlot(ctx: AssignmentContext, name: string, day: number, session: number): boolean {
+  return ctx.personAssignments.get(name)!.some(a =>
+    a.day === day && (ctx.oneSessionPerDay || a.session === session)
+  );
+}
+
+// Helper function to check whether a room would be repeated on the previous or next day
+function repeatsRoomOnAdjacentDay(ctx: AssignmentContext, name: string, day: number, room: number): boolean {
+  return ctx.personAssignments.get(name)!.some(a =>
+    Math.abs(a.day - day) === 1 && a.room === room
+  );
+}
+
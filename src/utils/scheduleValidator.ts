@@ -0,0 +1,181 @@
+import {
+  FacultyConstraint,
+  Person,
+  RankRule,
+  Schedule,
+  ScheduleEntry,
+  UnavailabilityConstraint,
+  Violation
+} from '../types';
+import { computeDutyLimits } from './dutyLimits';
+import { getUnavailableDays, isUnavailableOn } from './unavailability';
+import { formatDayLabel, getExamDay } from './calendar';
+import { getSessionShortLabel } from './sessions';
+import { getRoomName } from './rooms';
+
+// Everything the schedule was generated from, needed to judge duty counts and constraints
+export interface ValidationInput {
+  faculty: Person[];
+  staff: Person[];
+  constraints: FacultyConstraint[];
+  unavailability: UnavailabilityConstraint[];
+  rankRules: RankRule[];
+}
+
+export const VALIDATION_RULES = {
+  'room-empty': 'Room has no invigilators',
+  'room-understaffed': 'Room has fewer invigilators than required',
+  'room-overfilled': 'Room has more invigilators than positions',
+  'room-needs-faculty': 'Room requires faculty but has none',
+  'double-booked': 'Person in two rooms in the same session',
+  'one-session-per-day': 'Person on duty in more than one session of a day',
+  'same-room-consecutive-days': 'Person in the same room on consecutive days',
+  'unavailable-assigned': 'Person assigned on a day they are unavailable',
+  'exempt-assigned': 'Exempt person assigned a duty',
+  'personal-cap-exceeded': 'Person above their own duty cap',
+  'staff-target': 'Staff duty count differs from target',
+  'faculty-cap': 'Faculty above their duty cap',
+  'faculty-minimum': 'Faculty below their own minimum',
+  'fixed-day-unmet': 'Faculty not on duty on their fixed day'
+} as const;
+
+export type ValidationRuleId = keyof typeof VALIDATION_RULES;
+
+// Check a finished schedule against every hard and soft rule of the generator
+export function validateSchedule(schedule: Schedule, input: ValidationInput): Violation[] {
+  const violations: Violation[] = [];
+  const { faculty, staff, constraints, unavailability, rankRules } = input;
+
+  const slotLabel = (day: number, session?: number): string => {
+    const dayLabel = formatDayLabel(getExamDay(schedule.calendar, day));
+    return session !== undefined && schedule.sessionsPerDay > 1
+      ? `${dayLabel} ${getSessionShortLabel(session)}`
+      : dayLabel;
+  };
+  const roomName = (room: number) => getRoomName(schedule.rooms, room);
+
+  const add = (ruleId: ValidationRuleId, severity: Violation['severity'], message: string, location: Omit<Violation, 'ruleId' | 'severity' | 'message'> = {}) => {
+    violations.push({ ruleId, severity, message, ...location });
+  };
+
+  // Room staffing in every slot
+  for (let day = 1; day <= schedule.days; day++) {
+    for (let session = 1; session <= schedule.sessionsPerDay; session++) {
+      schedule.rooms.forEach(room => {
+        const entry = schedule.entries.find(e => e.day === day && e.session === session && e.room === room.id);
+        const where = `${room.name}, ${slotLabel(day, session)}`;
+
+        if (!entry || entry.invigilators.length === 0) {
+          add('room-empty', 'error', `${where} has no invigilators`, { day, session, room: room.id });
+          return;
+        }
+        if (entry.invigilators.length < room.invigilators) {
+          add('room-understaffed', 'error',
+            `${where} has ${entry.invigilators.length} of ${room.invigilators} invigilators`,
+            { day, session, room: room.id });
+        }
+        if (entry.invigilators.length > room.invigilators) {
+          add('room-overfilled', 'warning',
+            `${where} has ${entry.invigilators.length} invigilators for ${room.invigilators} positions`,
+            { day, session, room: room.id });
+        }
+        if (room.requiresFaculty && !entry.invigilators.some(i => i.person.type === 'faculty')) {
+          add('room-needs-faculty', 'error', `${where} requires faculty but has none`, { day, session, room: room.id });
+        }
+      });
+    }
+  }
+
+  // Per-person placement rules
+  const assignments = new Map<string, ScheduleEntry[]>();
+  schedule.entries.forEach(entry => {
+    entry.invigilators.forEach(({ person }) => {
+      if (!assignments.has(person.name)) assignments.set(person.name, []);
+      assignments.get(person.name)!.push(entry);
+    });
+  });
+
+  const unavailable = getUnavailableDays(unavailability);
+
+  assignments.forEach((entries, name) => {
+    const sorted = [...entries].sort((a, b) => a.day - b.day || a.session - b.session || a.room - b.room);
+
+    sorted.forEach((entry, index) => {
+      const next = sorted[index + 1];
+      if (next && next.day === entry.day && next.session === entry.session) {
+        add('double-booked', 'error',
+          `${name} is in ${roomName(entry.room)} and ${roomName(next.room)} on ${slotLabel(entry.day, entry.session)}`,
+          { day: entry.day, session: entry.session, room: next.room, person: name });
+      } else if (next && next.day === entry.day && schedule.oneSessionPerDay) {
+        add('one-session-per-day', 'error',
+          `${name} sits more than one session on ${slotLabel(entry.day)}`,
+          { day: entry.day, session: next.session, room: next.room, person: name });
+      }
+
+      if (sorted.some(other => other.day === entry.day + 1 && other.room === entry.room)) {
+        add('same-room-consecutive-days', 'warning',
+          `${name} is in ${roomName(entry.room)} on ${slotLabel(entry.day)} and the following day`,
+          { day: entry.day + 1, room: entry.room, person: name });
+      }
+
+      const person = entry.invigilators.find(i => i.person.name === name)!.person;
+      if (isUnavailableOn(unavailable, person, entry.day)) {
+        add('unavailable-assigned', 'error',
+          `${name} is assigned on ${slotLabel(entry.day)} but marked unavailable`,
+          { day: entry.day, session: entry.session, room: entry.room, person: name });
+      }
+    });
+  });
+
+  // Duty counts against targets and caps
+  const limits = computeDutyLimits(faculty, staff, {
+    days: schedule.days,
+    sessionsPerDay: schedule.sessionsPerDay,
+    oneSessionPerDay: schedule.oneSessionPerDay,
+    rooms: schedule.rooms,
+    rankRules,
+    unavailable
+  });
+  const dutyCount = (name: string) => assignments.get(name)?.length ?? 0;
+
+  [...faculty, ...staff].forEach(person => {
+    const count = dutyCount(person.name);
+    const cap = limits.personalCaps.get(person.name);
+
+    if (person.exempt && count > 0) {
+      add('exempt-assigned', 'error', `${person.name} is exempt but has ${count} duties`, { person: person.name });
+    } else if (cap !== undefined && count > cap) {
+      add('personal-cap-exceeded', 'error', `${person.name} has ${count} duties, above their cap of ${cap}`, { person: person.name });
+    }
+  });
+
+  staff.forEach(s => {
+    const count = dutyCount(s.name);
+    const target = limits.staffTargets.get(s.name)!;
+    if (count !== target) {
+      add('staff-target', 'warning', `${s.name} has ${count} duties, target is ${target}`, { person: s.name });
+    }
+  });
+
+  faculty.forEach(f => {
+    const count = dutyCount(f.name);
+    const max = limits.maxDutiesPerFaculty.get(f.name)!;
+    if (count > max && !limits.personalCaps.has(f.name)) {
+      add('faculty-cap', 'warning', `${f.name} has ${count} duties, cap is ${max}`, { person: f.name });
+    }
+    if (f.minDuties !== undefined && count < f.minDuties) {
+      add('faculty-minimum', 'warning', `${f.name} has ${count} duties, minimum is ${f.minDuties}`, { person: f.name });
+    }
+  });
+
+  // Fixed days
+  constraints.forEach(c => {
+    const onDuty = (assignments.get(c.facultyName) ?? []).some(entry => entry.day === c.day);
+    if (!onDuty) {
+      add('fixed-day-unmet', 'error', `${c.facultyName} is fixed to ${slotLabel(c.day)} but not on duty`,
+        { day: c.day, person: c.facultyName });
+    }
+  });
+
+  return violations;
+}
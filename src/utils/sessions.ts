@@ -0,0 +1,26 @@
+import { SessionTime } from '../types';
+
+// Names of the sittings within an exam day, in order
+const SESSION_NAMES = ['Forenoon', 'Afternoon', 'Evening'];
+const SESSION_SHORT_NAMES = ['FN', 'AN', 'EN'];
+
+export const MAX_SESSIONS_PER_DAY = SESSION_NAMES.length;
+
+// Usual timings of the forenoon, afternoon and evening sittings
+export const DEFAULT_SESSION_TIMES: SessionTime[] = [
+  { start: '09:30', end: '12:30' },
+  { start: '14:00', end: '17:00' },
+  { start: '17:30', end: '20:30' }
+];
+
+export function getSessionTime(times: SessionTime[], session: number): SessionTime {
+  return times[session - 1] ?? DEFAULT_SESSION_TIMES[session - 1] ?? DEFAULT_SESSION_TIMES[0];
+}
+
+export function getSessionLabel(session: number): string {
+  return SESSION_NAMES[session - 1] ?? `Session ${session}`;
+}
+
+export function getSessionShortLabel(session: number): string {
+  return SESSION_SHORT_NAMES[session - 1] ?? `S${session}`;
+}
@@ -0,0 +1,155 @@
+import * as XLSX from 'xlsx';
+
+// Header text compared without case, spaces, dashes or underscores
+export function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]/g, '');
+}
+
+// Read a value from a spreadsheet row by any of the given header names, ignoring case and spacing
+export function readColumn(row: Record<string, unknown>, headers: string[]): string {
+  const wanted = headers.map(normaliseHeader);
+  const key = Object.keys(row).find(k => wanted.includes(normaliseHeader(k)));
+  return key === undefined ? '' : String(row[key] ?? '').trim();
+}
+
+// A row that was skipped or changed on import; row is the spreadsheet row number
+export interface SheetIssue {
+  row: number;
+  message: string;
+}
+
+// A sheet of a workbook as rows of cell text, blank rows included so row numbers match the file
+export interface SheetRows {
+  name: string;
+  rows: string[][];
+}
+
+// File types accepted for upload; CSV files hold a single sheet
+export const SPREADSHEET_FILE_TYPES = '.xlsx,.xls,.ods,.csv';
+
+export type SpreadsheetFormat = 'xlsx' | 'ods' | 'csv';
+
+export const SPREADSHEET_FORMATS: { id: SpreadsheetFormat; label: string }[] = [
+  { id: 'xlsx', label: 'Excel (.xlsx)' },
+  { id: 'ods', label: 'OpenDocument (.ods)' },
+  { id: 'csv', label: 'CSV' }
+];
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+const DELIMITER_NAMES: Record<string, string> = { ',': 'comma', ';': 'semicolon', '\t': 'tab', '|': 'pipe' };
+const DELIMITER_SAMPLE_LINES = 20;
+
+// Helper function to decode text by its byte order mark, else as UTF-8 when it is valid
+// UTF-8, else as Windows-1252 (what older Excel and many ERP exports write)
+function decodeText(bytes: Uint8Array): { text: string; encoding: string } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'UTF-16' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'UTF-16' };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'Windows-1252' };
+  }
+}
+
+// The delimiter that splits the first lines into the same number of fields most often,
+// preferring more fields; separators inside quotes are not counted. An Excel "sep=" line wins.
+export function detectCsvDelimiter(text: string): string {
+  const sepLine = /^sep=(.)\r?\n/.exec(text);
+  if (sepLine) return sepLine[1];
+
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, DELIMITER_SAMPLE_LINES);
+  const countFields = (line: string, delimiter: string): number => {
+    let fields = 1;
+    let quoted = false;
+    for (const char of line) {
+      if (char === '"') quoted = !quoted;
+      else if (char === delimiter && !quoted) fields++;
+    }
+    return fields;
+  };
+
+  let best = ',';
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(line => countFields(line, delimiter));
+    const tally = new Map<number, number>();
+    counts.filter(count => count > 1).forEach(count => tally.set(count, (tally.get(count) ?? 0) + 1));
+    // Lines sharing the most common field count, then that count as a tie-break
+    let score = 0;
+    tally.forEach((lineCount, fields) => {
+      score = Math.max(score, lineCount * 1000 + fields);
+    });
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+// Read an uploaded spreadsheet. CSV text is decoded and split here so that the encoding and
+// delimiter can be reported, and its cells are kept as typed (no date or number guessing).
+export function readSpreadsheetFile(fileName: string, data: ArrayBuffer): { workbook: XLSX.WorkBook; description: string } {
+  const bytes = new Uint8Array(data);
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension !== 'csv') {
+    return {
+      workbook: XLSX.read(bytes, { type: 'array', cellNF: true }), // Number formats tell dates apart
+      description: extension === 'ods' ? 'OpenDocument spreadsheet' : 'Excel workbook'
+    };
+  }
+
+  const { text, encoding } = decodeText(bytes);
+  const delimiter = detectCsvDelimiter(text);
+  const workbook = XLSX.read(text.replace(/^sep=.\r?\n/, ''), { type: 'string', FS: delimiter, raw: true });
+  // Name the single sheet after the file rather than "Sheet1"
+  const sheetName = fileName.replace(/\.csv$/i, '').slice(0, 31) || workbook.SheetNames[0];
+  if (sheetName !== workbook.SheetNames[0]) {
+    workbook.Sheets[sheetName] = workbook.Sheets[workbook.SheetNames[0]];
+    delete workbook.Sheets[workbook.SheetNames[0]];
+    workbook.SheetNames[0] = sheetName;
+  }
+  return { workbook, description: `CSV, ${DELIMITER_NAMES[delimiter] ?? `"${delimiter}"`}-separated, ${encoding}` };
+}
+
+// Helper function to get the text of a cell as shown, except that dates are always
+// YYYY-MM-DD whatever the cell's display format
+function readCellText(cell: XLSX.CellObject | undefined): string {
+  if (!cell) return '';
+  if (cell.t === 'n' && cell.z !== undefined && XLSX.SSF.is_date(cell.z)) {
+    const { y, m, d } = XLSX.SSF.parse_date_code(cell.v as number);
+    return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+  }
+  return cell.w ?? String(cell.v ?? '');
+}
+
+export function readWorkbookSheets(workbook: XLSX.WorkBook): SheetRows[] {
+  return workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    if (!sheet['!ref']) return { name, rows: [] };
+
+    // Rows start at the top of the sheet even when its used range does not
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const rows: string[][] = [];
+    for (let r = 0; r <= range.e.r; r++) {
+      const row: string[] = [];
+      for (let c = 0; c <= range.e.c; c++) {
+        row.push(readCellText(sheet[XLSX.utils.encode_cell({ r, c })]));
+      }
+      rows.push(row);
+    }
+    return { name, rows };
+  });
+}
+
+// Column letter as shown in spreadsheet programs (0 -> A, 26 -> AA)
+export function columnLetter(index: number): string {
+  return XLSX.utils.encode_col(index);
+}
@@ -0,0 +1,21 @@
+import { Person, UnavailabilityConstraint } from '../types';
+
+// Leave belongs to a person, not a name: a faculty member and a staff member may share one
+export function personKey(person: Pick<Person, 'type' | 'name'>): string {
+  return `${person.type}:${person.name}`;
+}
+
+// Days each person is unavailable, keyed by personKey
+export function getUnavailableDays(unavailability: UnavailabilityConstraint[]): Map<string, Set<number>> {
+  const unavailable = new Map<string, Set<number>>();
+  unavailability.forEach(u => {
+    const key = personKey({ type: u.personType, name: u.personName });
+    if (!unavailable.has(key)) unavailable.set(key, new Set());
+    for (let day = u.fromDay; day <= u.toDay; day++) unavailable.get(key)!.add(day);
+  });
+  return unavailable;
+}
+
+export function isUnavailableOn(unavailable: Map<string, Set<number>>, person: Pick<Person, 'type' | 'name'>, day: number): boolean {
+  return unavailable.get(personKey(person))?.has(day) ?? false;
+}
@@ -0,0 +1,166 @@
+import { DocumentSettings, FacultyConstraint, Person, RankRule, Room, Schedule, ScheduleLocks, SessionTime, UnavailabilityConstraint } from '../types';
+import { SchedulingEngine } from './engines';
+import { createDefaultRooms } from './rooms';
+import { DEFAULT_RANK_RULES } from './ranks';
+import { EMPTY_LOCKS } from './locks';
+import { DEFAULT_SESSION_TIMES } from './sessions';
+
+// Everything the user has set up or produced, as kept between visits
+export interface Workspace {
+  fileName: string | null; // Roster file the people came from
+  faculty: Person[];
+  staff: Person[];
+  constraints: FacultyConstraint[];
+  unavailability: UnavailabilityConstraint[];
+  days: number;
+  startDate: string;
+  holidays: string[];
+  skipSundays: boolean;
+  rooms: Room[];
+  rankRules: RankRule[];
+  sessionsPerDay: number;
+  oneSessionPerDay: boolean;
+  sessionTimes: SessionTime[]; // Start and end of each session, for calendar events
+  seedInput: string;
+  engine: SchedulingEngine;
+  candidateCount: number;
+  schedule: Schedule | null;
+  locks: ScheduleLocks;
+  baseline: Schedule | null; // Last circulated version
+  documentSettings: DocumentSettings;
+}
+
+export const DEFAULT_DOCUMENT_SETTINGS: DocumentSettings = {
+  institute: '',
+  subtitle: '',
+  examName: '',
+  signatoryName: '',
+  signatoryTitle: ''
+};
+
+export const DEFAULT_WORKSPACE: Workspace = {
+  fileName: null,
+  faculty: [],
+  staff: [],
+  constraints: [],
+  unavailability: [],
+  days: 6,
+  startDate: '',
+  holidays: [],
+  skipSundays: true,
+  rooms: createDefaultRooms(11),
+  rankRules: DEFAULT_RANK_RULES,
+  sessionsPerDay: 1,
+  oneSessionPerDay: false,
+  sessionTimes: DEFAULT_SESSION_TIMES,
+  seedInput: '',
+  engine: 'greedy',
+  candidateCount: 1,
+  schedule: null,
+  locks: EMPTY_LOCKS,
+  baseline: null,
+  documentSettings: DEFAULT_DOCUMENT_SETTINGS
+};
+
+// A named workspace saved in the browser, e.g. "End-Sem Autumn 2026"
+export interface SavedSession {
+  id: string;
+  name: string;
+  updatedAt: string; // ISO timestamp of the last save
+}
+
+export class WorkspaceStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceStorageError';
+  }
+}
+
+const STORAGE_PREFIX = 'exam-duty';
+const SESSIONS_KEY = `${STORAGE_PREFIX}:sessions`;
+const ACTIVE_SESSION_KEY = `${STORAGE_PREFIX}:active-session`;
+const workspaceKey = (id: string) => `${STORAGE_PREFIX}:workspace:${id}`;
+
+export const DEFAULT_SESSION_NAME = 'Untitled session';
+
+// Helper function to read JSON from storage, treating anything unreadable as missing
+function readJson<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? null : JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to write JSON to storage; a full or blocked storage is reported, not ignored
+function writeJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    throw new WorkspaceStorageError(
+      `Could not save to browser storage: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+export function createSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Saved sessions, most recently saved first
+export function listSessions(): SavedSession[] {
+  const sessions = readJson<SavedSession[]>(SESSIONS_KEY);
+  return Array.isArray(sessions)
+    ? [...sessions].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    : [];
+}
+
+// Fields missing from an older save fall back to their defaults
+export function loadSession(id: string): Workspace | null {
+  const stored = readJson<Partial<Workspace>>(workspaceKey(id));
+  return stored && typeof stored === 'object' ? { ...DEFAULT_WORKSPACE, ...stored } : null;
+}
+
+// Create or overwrite a session
+export function saveSession(id: string, name: string, workspace: Workspace) {
+  writeJson(workspaceKey(id), workspace);
+  const others = listSessions().filter(session => session.id !== id);
+  writeJson(SESSIONS_KEY, [...others, { id, name, updatedAt: new Date().toISOString() }]);
+}
+
+export function deleteSession(id: string) {
+  localStorage.removeItem(workspaceKey(id));
+  writeJson(SESSIONS_KEY, listSessions().filter(session => session.id !== id));
+}
+
+export function setActiveSession(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_SESSION_KEY, id);
+  } catch {
+    // Only decides which session opens next time
+  }
+}
+
+// The session to open on load: the one last used, else the latest saved, else a new
+// empty one (which is only written once something is saved)
+export function restoreActiveSession(): { session: SavedSession; workspace: Workspace } {
+  const sessions = listSessions();
+  let activeId: string | null = null;
+  try {
+    activeId = localStorage.getItem(ACTIVE_SESSION_KEY);
+  } catch {
+    activeId = null;
+  }
+
+  const candidates = [...sessions.filter(session => session.id === activeId), ...sessions];
+  for (const session of candidates) {
+    const workspace = loadSession(session.id);
+    if (workspace) return { session, workspace };
+  }
+
+  return {
+    session: { id: createSessionId(), name: DEFAULT_SESSION_NAME, updatedAt: new Date().toISOString() },
+    workspace: DEFAULT_WORKSPACE
+  };
+}